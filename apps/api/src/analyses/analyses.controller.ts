@@ -1,4 +1,4 @@
-import { Controller, Get, Param } from '@nestjs/common';
+import { Controller, Get, Param, Post, Query } from '@nestjs/common';
 import { AnalysesService } from './analyses.service';
 
 @Controller('analyses')
@@ -15,6 +15,43 @@ export class AnalysesController {
     return this.analysesService.getScore(id);
   }
 
+  @Get(':id/phases')
+  getPhases(@Param('id') id: string) {
+    return this.analysesService.getPhases(id);
+  }
+
+  @Post(':id/retry')
+  retry(@Param('id') id: string) {
+    return this.analysesService.retry(id);
+  }
+
+  @Post(':id/cancel')
+  cancel(@Param('id') id: string) {
+    return this.analysesService.cancel(id);
+  }
+
+  // ?severity=error&rule=no-unused-vars&path=src/ narrow the list; path matches as a prefix.
+  @Get(':id/findings')
+  getFindings(
+    @Param('id') id: string,
+    @Query('severity') severity?: string,
+    @Query('rule') rule?: string,
+    @Query('path') path?: string,
+  ) {
+    return this.analysesService.getFindings(id, { severity, rule, path });
+  }
+
+  // The same findings and filters as a SARIF 2.1.0 log, one run per repository and tool.
+  @Get(':id/findings/sarif')
+  exportFindings(
+    @Param('id') id: string,
+    @Query('severity') severity?: string,
+    @Query('rule') rule?: string,
+    @Query('path') path?: string,
+  ) {
+    return this.analysesService.exportFindings(id, { severity, rule, path });
+  }
+
   @Get(':id/repos')
   getRepos(@Param('id') id: string) {
     return this.analysesService.getRepos(id);
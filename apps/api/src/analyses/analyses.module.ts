@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { AnalysesController } from './analyses.controller';
 import { AnalysesService } from './analyses.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { QueueModule } from '../queue/queue.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, QueueModule],
   controllers: [AnalysesController],
   providers: [AnalysesService],
   exports: [AnalysesService],
@@ -1,9 +1,23 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
 import { PrismaService } from '../prisma/prisma.service';
+import { ANALYSIS_JOB_OPTIONS } from '../queue/queue.module';
+import { findingsToSarif } from 'findings';
+import { FindingSeverity } from 'types';
+
+export interface FindingFilters {
+  severity?: string;
+  rule?: string;
+  path?: string;
+}
 
 @Injectable()
 export class AnalysesService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectQueue('analysis') private readonly analysisQueue: Queue,
+  ) {}
 
   async findOne(id: string) {
     return this.prisma.analysis.findUnique({
@@ -36,6 +50,66 @@ export class AnalysesService {
     return analysis.score;
   }
 
+  async getPhases(id: string) {
+    const analysis = await this.prisma.analysis.findUnique({
+      where: { id },
+      select: { id: true, status: true, phases: true },
+    });
+
+    if (!analysis) {
+      return null;
+    }
+
+    return analysis;
+  }
+
+  // Re-queues a failed analysis; the worker skips every phase that already completed.
+  async retry(id: string) {
+    const analysis = await this.prisma.analysis.findUnique({ where: { id } });
+    if (!analysis) {
+      throw new NotFoundException('Analysis not found');
+    }
+    if (analysis.status !== 'failed') {
+      throw new BadRequestException('Only failed analyses can be retried');
+    }
+    // A job that is still waiting or delayed would run alongside the retry on the same workspace.
+    const pending = await this.analysisQueue.getJobs(['waiting', 'delayed', 'active', 'prioritized']);
+    if (pending.some(job => job?.data?.analysisId === id)) {
+      throw new BadRequestException('Analysis already has a job waiting to run');
+    }
+
+    const job = await this.analysisQueue.add(
+      'analyze-project',
+      { projectId: analysis.projectId, analysisId: analysis.id },
+      ANALYSIS_JOB_OPTIONS,
+    );
+
+    await this.prisma.analysis.update({
+      where: { id },
+      data: { status: 'queued' },
+    });
+
+    return { message: 'Analysis retry has been queued.', jobId: job.id };
+  }
+
+  // The worker polls for this status and kills any tool it is running; queued retries are skipped.
+  async cancel(id: string) {
+    const analysis = await this.prisma.analysis.findUnique({ where: { id } });
+    if (!analysis) {
+      throw new NotFoundException('Analysis not found');
+    }
+    if (!['queued', 'running', 'retrying'].includes(analysis.status)) {
+      throw new BadRequestException('Only queued, running or retrying analyses can be cancelled');
+    }
+
+    await this.prisma.analysis.update({
+      where: { id },
+      data: { status: 'cancelled' },
+    });
+
+    return { message: 'Analysis cancellation has been requested.' };
+  }
+
   async getRepos(id: string) {
     return this.prisma.repo.findMany({
       where: { analysisId: id },
@@ -45,4 +119,48 @@ export class AnalysesService {
       },
     });
   }
+
+  async getFindings(id: string, filters: FindingFilters) {
+    const analysis = await this.prisma.analysis.findUnique({ where: { id }, select: { id: true } });
+    if (!analysis) {
+      throw new NotFoundException('Analysis not found');
+    }
+
+    const findings = await this.prisma.finding.findMany({
+      where: this.findingWhere(id, filters),
+      include: { repo: { select: { name: true } } },
+      orderBy: [{ path: 'asc' }, { line: 'asc' }],
+    });
+    return findings.map(finding => ({ ...finding, repo: finding.repo.name }));
+  }
+
+  async exportFindings(id: string, filters: FindingFilters) {
+    const analysis = await this.prisma.analysis.findUnique({
+      where: { id },
+      include: { repos: { select: { id: true, url: true, commitSha: true } } },
+    });
+    if (!analysis) {
+      throw new NotFoundException('Analysis not found');
+    }
+
+    const findings = await this.prisma.finding.findMany({
+      where: this.findingWhere(id, filters),
+      orderBy: [{ path: 'asc' }, { line: 'asc' }],
+    });
+    return findingsToSarif(analysis.repos.map(repo => ({
+      repository: { uri: repo.url, revision: repo.commitSha },
+      findings: findings
+        .filter(finding => finding.repoId === repo.id)
+        .map(finding => ({ ...finding, severity: finding.severity as FindingSeverity })),
+    })));
+  }
+
+  private findingWhere(id: string, filters: FindingFilters) {
+    return {
+      repo: { analysisId: id },
+      ...(filters.severity && { severity: filters.severity }),
+      ...(filters.rule && { ruleId: filters.rule }),
+      ...(filters.path && { path: { startsWith: filters.path } }),
+    };
+  }
 }
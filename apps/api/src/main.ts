@@ -5,6 +5,10 @@ import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
+import { json, NextFunction, Request, Response } from 'express';
+
+// SARIF logs from a full scan are far larger than the 100 kB every other route accepts.
+const SARIF_BODY_LIMIT = process.env.SARIF_BODY_LIMIT || '50mb';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -16,6 +20,11 @@ async function bootstrap() {
     origin: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'],
     credentials: true,
   }));
+
+  // Parsed here first, so Nest's default JSON parser skips the body. The wrapper keeps the parser's
+  // function name out of the router, since Nest leaves out its own parser when it sees a `jsonParser`.
+  const sarifParser = json({ limit: SARIF_BODY_LIMIT });
+  app.use('/repos/:id/findings/sarif', (req: Request, res: Response, next: NextFunction) => sarifParser(req, res, next));
   
   // Validation
   app.useGlobalPipes(new ValidationPipe({
@@ -0,0 +1,28 @@
+import { IsDateString, IsFQDN, IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { CREDENTIAL_KINDS, CredentialKind, GIT_PROVIDER_KINDS, GitProviderKind } from 'types';
+
+export class CreateCredentialDto {
+  @IsIn(CREDENTIAL_KINDS)
+  kind!: CredentialKind;
+
+  @IsString()
+  @IsNotEmpty()
+  token!: string;
+
+  @IsOptional()
+  @IsIn(GIT_PROVIDER_KINDS)
+  provider?: GitProviderKind;
+
+  @IsOptional()
+  @IsFQDN()
+  host?: string;
+
+  @IsOptional()
+  @IsString()
+  label?: string;
+
+  // Installation tokens expire after an hour; PATs may carry an expiry too.
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
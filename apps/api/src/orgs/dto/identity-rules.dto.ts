@@ -0,0 +1,30 @@
+import { ArrayNotEmpty, IsArray, IsEmail, IsNotEmpty, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class IdentityAliasDto {
+  @IsString()
+  @IsNotEmpty()
+  canonical!: string;
+
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  // Names or emails (case-insensitive) that should be reported as `canonical`.
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  match!: string[];
+}
+
+export class IdentityRulesDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => IdentityAliasDto)
+  aliases!: IdentityAliasDto[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  botPatterns?: string[];
+}
@@ -0,0 +1,8 @@
+import { IsArray, IsString } from 'class-validator';
+
+export class IgnorePatternsDto {
+  // gitignore syntax; applied to every repository of the org's projects alongside its .devatlasignore.
+  @IsArray()
+  @IsString({ each: true })
+  patterns!: string[];
+}
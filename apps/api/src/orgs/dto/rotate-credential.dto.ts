@@ -0,0 +1,11 @@
+import { IsDateString, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class RotateCredentialDto {
+  @IsString()
+  @IsNotEmpty()
+  token!: string;
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
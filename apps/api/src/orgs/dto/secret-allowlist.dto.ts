@@ -0,0 +1,8 @@
+import { IsArray, IsString } from 'class-validator';
+
+export class SecretAllowlistDto {
+  // Fingerprints from GET /repos/:id/secrets; matching findings are dropped from later analyses.
+  @IsArray()
+  @IsString({ each: true })
+  fingerprints!: string[];
+}
@@ -0,0 +1,91 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { CredentialCipher } from 'credentials';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateCredentialDto } from './dto/create-credential.dto';
+import { RotateCredentialDto } from './dto/rotate-credential.dto';
+
+// Everything but the ciphertext: tokens never leave the API once stored.
+const CREDENTIAL_SELECT = {
+  id: true,
+  orgId: true,
+  provider: true,
+  host: true,
+  kind: true,
+  label: true,
+  expiresAt: true,
+  rotatedAt: true,
+  revokedAt: true,
+  createdAt: true,
+};
+
+@Injectable()
+export class OrgCredentialsService {
+  private cipher: CredentialCipher | null = null;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(orgId: string, data: CreateCredentialDto) {
+    return this.prisma.orgCredential.create({
+      data: {
+        orgId,
+        kind: data.kind,
+        provider: data.provider || 'github',
+        host: data.host,
+        label: data.label,
+        expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+        ciphertext: this.getCipher().encrypt(data.token),
+      },
+      select: CREDENTIAL_SELECT,
+    });
+  }
+
+  async findAll(orgId: string) {
+    return this.prisma.orgCredential.findMany({
+      where: { orgId },
+      orderBy: { createdAt: 'desc' },
+      select: CREDENTIAL_SELECT,
+    });
+  }
+
+  async rotate(orgId: string, credentialId: string, data: RotateCredentialDto) {
+    await this.findActive(orgId, credentialId);
+    return this.prisma.orgCredential.update({
+      where: { id: credentialId },
+      data: {
+        ciphertext: this.getCipher().encrypt(data.token),
+        expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+        rotatedAt: new Date(),
+      },
+      select: CREDENTIAL_SELECT,
+    });
+  }
+
+  // Revoked credentials keep their row for auditing, but the ciphertext is wiped.
+  async revoke(orgId: string, credentialId: string) {
+    await this.findActive(orgId, credentialId);
+    return this.prisma.orgCredential.update({
+      where: { id: credentialId },
+      data: { ciphertext: '', revokedAt: new Date() },
+      select: CREDENTIAL_SELECT,
+    });
+  }
+
+  // Created on first use, so the API still boots without CREDENTIALS_ENCRYPTION_KEY for routes that never touch tokens.
+  private getCipher(): CredentialCipher {
+    if (!this.cipher) {
+      this.cipher = new CredentialCipher();
+    }
+    return this.cipher;
+  }
+
+  private async findActive(orgId: string, credentialId: string) {
+    const credential = await this.prisma.orgCredential.findFirst({
+      where: { id: credentialId, orgId, revokedAt: null },
+      select: CREDENTIAL_SELECT,
+    });
+    if (!credential) {
+      throw new NotFoundException('Credential not found');
+    }
+    return credential;
+  }
+}
@@ -1,9 +1,18 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete } from '@nestjs/common';
+import { Controller, Get, Post, Put, Body, Patch, Param, Delete } from '@nestjs/common';
 import { OrgsService } from './orgs.service';
+import { OrgCredentialsService } from './org-credentials.service';
+import { CreateCredentialDto } from './dto/create-credential.dto';
+import { RotateCredentialDto } from './dto/rotate-credential.dto';
+import { IdentityRulesDto } from './dto/identity-rules.dto';
+import { IgnorePatternsDto } from './dto/ignore-patterns.dto';
+import { SecretAllowlistDto } from './dto/secret-allowlist.dto';
 
 @Controller('orgs')
 export class OrgsController {
-  constructor(private readonly orgsService: OrgsService) {}
+  constructor(
+    private readonly orgsService: OrgsService,
+    private readonly credentialsService: OrgCredentialsService,
+  ) {}
 
   @Post()
   create(@Body() createOrgDto: { name: string; stripeId?: string }) {
@@ -29,4 +38,43 @@ export class OrgsController {
   remove(@Param('id') id: string) {
     return this.orgsService.remove(id);
   }
+
+  @Put(':id/identity-rules')
+  setIdentityRules(@Param('id') id: string, @Body() identityRulesDto: IdentityRulesDto) {
+    return this.orgsService.setIdentityRules(id, identityRulesDto);
+  }
+
+  @Put(':id/ignore-patterns')
+  setIgnorePatterns(@Param('id') id: string, @Body() ignorePatternsDto: IgnorePatternsDto) {
+    return this.orgsService.setIgnorePatterns(id, ignorePatternsDto);
+  }
+
+  @Put(':id/secret-allowlist')
+  setSecretAllowlist(@Param('id') id: string, @Body() secretAllowlistDto: SecretAllowlistDto) {
+    return this.orgsService.setSecretAllowlist(id, secretAllowlistDto);
+  }
+
+  @Post(':id/credentials')
+  addCredential(@Param('id') id: string, @Body() createCredentialDto: CreateCredentialDto) {
+    return this.credentialsService.create(id, createCredentialDto);
+  }
+
+  @Get(':id/credentials')
+  findCredentials(@Param('id') id: string) {
+    return this.credentialsService.findAll(id);
+  }
+
+  @Put(':id/credentials/:credentialId')
+  rotateCredential(
+    @Param('id') id: string,
+    @Param('credentialId') credentialId: string,
+    @Body() rotateCredentialDto: RotateCredentialDto,
+  ) {
+    return this.credentialsService.rotate(id, credentialId, rotateCredentialDto);
+  }
+
+  @Delete(':id/credentials/:credentialId')
+  revokeCredential(@Param('id') id: string, @Param('credentialId') credentialId: string) {
+    return this.credentialsService.revoke(id, credentialId);
+  }
 }
@@ -1,12 +1,13 @@
 import { Module } from '@nestjs/common';
 import { OrgsController } from './orgs.controller';
 import { OrgsService } from './orgs.service';
+import { OrgCredentialsService } from './org-credentials.service';
 import { PrismaModule } from '../prisma/prisma.module';
 
 @Module({
   imports: [PrismaModule],
   controllers: [OrgsController],
-  providers: [OrgsService],
+  providers: [OrgsService, OrgCredentialsService],
   exports: [OrgsService],
 })
 export class OrgsModule {}
@@ -1,5 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { IdentityRulesDto } from './dto/identity-rules.dto';
+import { IgnorePatternsDto } from './dto/ignore-patterns.dto';
+import { SecretAllowlistDto } from './dto/secret-allowlist.dto';
 
 @Injectable()
 export class OrgsService {
@@ -37,6 +40,36 @@ export class OrgsService {
     });
   }
 
+  async setIdentityRules(id: string, rules: IdentityRulesDto) {
+    return this.prisma.org.update({
+      where: { id },
+      data: {
+        identityRules: {
+          aliases: rules.aliases.map(alias => ({ ...alias })),
+          botPatterns: rules.botPatterns || [],
+        },
+      },
+    });
+  }
+
+  async setIgnorePatterns(id: string, dto: IgnorePatternsDto) {
+    return this.prisma.org.update({
+      where: { id },
+      data: {
+        ignorePatterns: dto.patterns.map(pattern => pattern.trim()).filter(pattern => pattern),
+      },
+    });
+  }
+
+  async setSecretAllowlist(id: string, dto: SecretAllowlistDto) {
+    return this.prisma.org.update({
+      where: { id },
+      data: {
+        secretAllowlist: Array.from(new Set(dto.fingerprints.map(fingerprint => fingerprint.trim()).filter(fingerprint => fingerprint))),
+      },
+    });
+  }
+
   async remove(id: string) {
     return this.prisma.org.delete({
       where: { id },
@@ -1,12 +1,29 @@
-import { IsIn, IsString } from 'class-validator';
+import { IsFQDN, IsIn, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { GIT_PROVIDER_KINDS, GitProviderKind, PROJECT_TYPES, ProjectType } from 'types';
+import { ProjectSettingsDto } from './project-settings.dto';
 
 export class CreateProjectDto {
   @IsString()
   handle!: string;
 
-  @IsIn(['user', 'org'])
-  type!: 'user' | 'org';
+  @IsIn(PROJECT_TYPES)
+  type!: ProjectType;
 
   @IsString()
   orgId!: string;
+
+  @IsOptional()
+  @IsIn(GIT_PROVIDER_KINDS)
+  provider?: GitProviderKind;
+
+  // Hostname for self-hosted providers, e.g. gitlab.example.com. Defaults to the provider's public host.
+  @IsOptional()
+  @IsFQDN()
+  host?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProjectSettingsDto)
+  settings?: ProjectSettingsDto;
 }
@@ -0,0 +1,64 @@
+import { IsBoolean, IsIn, IsInt, IsNotEmpty, IsOptional, IsString, Max, Min } from 'class-validator';
+import { HISTORY_MODES, HistoryMode } from 'types';
+
+export class ProjectSettingsDto {
+  @IsOptional()
+  @IsBoolean()
+  includeForks?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  includeArchived?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxRepoSizeKb?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  maxRepos?: number;
+
+  // How many directory levels below the root get their own ownership breakdown.
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  ownershipDepth?: number;
+
+  @IsOptional()
+  @IsIn(HISTORY_MODES)
+  historyMode?: HistoryMode;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  historyDepth?: number;
+
+  // Anything `git clone --shallow-since` accepts, e.g. '2024-01-01' or '6 months ago'.
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  historySince?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  fullHistoryMaxSizeKb?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  includeBots?: boolean;
+
+  // Also scan lines added in the cloned history window, not just the current tree.
+  @IsOptional()
+  @IsBoolean()
+  scanSecretHistory?: boolean;
+
+  // Lint with the repository's own ESLint config, which runs its code on the worker; the bundled baseline otherwise.
+  @IsOptional()
+  @IsBoolean()
+  runRepoEslintConfig?: boolean;
+}
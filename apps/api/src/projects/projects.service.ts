@@ -1,8 +1,10 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
+import { ANALYSIS_JOB_OPTIONS } from '../queue/queue.module';
 
 @Injectable()
 export class ProjectsService {
@@ -12,8 +14,16 @@ export class ProjectsService {
   ) {}
 
   create(createProjectDto: CreateProjectDto) {
+    // The worker only speaks Bitbucket Cloud's API; self-hosted servers go through the generic git provider.
+    if (createProjectDto.provider === 'bitbucket' && createProjectDto.host && createProjectDto.host !== 'bitbucket.org') {
+      throw new BadRequestException(`Bitbucket projects must use bitbucket.org; add ${createProjectDto.host} with the git provider.`);
+    }
+    // Plain git hosts have no API to list repositories with.
+    if (createProjectDto.provider === 'git' && createProjectDto.type !== 'repo') {
+      throw new BadRequestException('Projects using the git provider must have type repo.');
+    }
     return this.prisma.project.create({
-      data: createProjectDto,
+      data: { ...createProjectDto, settings: createProjectDto.settings as Prisma.InputJsonValue | undefined },
     });
   }
 
@@ -97,7 +107,7 @@ export class ProjectsService {
     // Add a job to the queue
     const job = await this.analysisQueue.add('analyze-project', {
       projectId: id,
-    });
+    }, ANALYSIS_JOB_OPTIONS);
 
     // Update project status to "queued"
     await this.prisma.project.update({
@@ -1,5 +1,12 @@
 import { BullModule } from '@nestjs/bullmq';
 import { Module } from '@nestjs/common';
+import { JobsOptions } from 'bullmq';
+
+// Failed attempts are retried with backoff; the worker resumes each retry at the phase that failed.
+export const ANALYSIS_JOB_OPTIONS: JobsOptions = {
+  attempts: 3,
+  backoff: { type: 'exponential', delay: 30_000 },
+};
 
 @Module({
   imports: [
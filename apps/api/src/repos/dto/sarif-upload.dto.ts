@@ -0,0 +1,26 @@
+import { IsArray, IsIn, IsObject, IsOptional, IsString } from 'class-validator';
+import { SarifRun } from 'findings';
+
+// A SARIF 2.1.0 log from any tool; only results with their rule, level, location and message are kept.
+export class SarifUploadDto {
+  @IsOptional()
+  @IsString()
+  $schema?: string;
+
+  @IsIn(['2.1.0'])
+  version!: string;
+
+  @IsArray()
+  @IsObject({ each: true })
+  runs!: SarifRun[];
+
+  // Allowed so that complete logs validate, but neither is read.
+  @IsOptional()
+  @IsArray()
+  @IsObject({ each: true })
+  inlineExternalProperties?: object[];
+
+  @IsOptional()
+  @IsObject()
+  properties?: Record<string, unknown>;
+}
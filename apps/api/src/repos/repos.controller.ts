@@ -1,5 +1,6 @@
-import { Controller, Get, Param } from '@nestjs/common';
+import { Body, Controller, DefaultValuePipe, Get, Param, ParseIntPipe, Post, Query } from '@nestjs/common';
 import { ReposService } from './repos.service';
+import { SarifUploadDto } from './dto/sarif-upload.dto';
 
 @Controller('repos')
 export class ReposController {
@@ -9,4 +10,59 @@ export class ReposController {
   getOwnership(@Param('id') id: string) {
     return this.reposService.getOwnership(id);
   }
+
+  @Get(':id/languages')
+  getLanguages(@Param('id') id: string) {
+    return this.reposService.getLanguages(id);
+  }
+
+  // ?path=src/app drills into a directory; the root is '.'.
+  @Get(':id/inventory')
+  getInventory(@Param('id') id: string, @Query('path') path?: string) {
+    return this.reposService.getInventory(id, path || '.');
+  }
+
+  @Get(':id/stack')
+  getStack(@Param('id') id: string) {
+    return this.reposService.getStack(id);
+  }
+
+  @Get(':id/hotspots')
+  getHotspots(@Param('id') id: string) {
+    return this.reposService.getHotspots(id);
+  }
+
+  // Most complex functions first; ?limit caps the list (at most 50 are stored per repo).
+  @Get(':id/complexity')
+  getComplexity(@Param('id') id: string, @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number) {
+    return this.reposService.getComplexity(id, limit);
+  }
+
+  @Get(':id/vulnerabilities')
+  getVulnerabilities(@Param('id') id: string) {
+    return this.reposService.getVulnerabilities(id);
+  }
+
+  // CycloneDX 1.5 JSON by default; ?format=spdx for SPDX 2.3 JSON.
+  @Get(':id/sbom')
+  exportSbom(@Param('id') id: string, @Query('format') format?: string) {
+    return this.reposService.exportSbom(id, format || 'cyclonedx');
+  }
+
+  // Redacted previews only; pass a fingerprint to PUT /orgs/:id/secret-allowlist to accept a false positive.
+  @Get(':id/secrets')
+  getSecrets(@Param('id') id: string) {
+    return this.reposService.getSecrets(id);
+  }
+
+  // Adds findings from a tool the worker does not run; results already stored for the repo are skipped.
+  @Post(':id/findings/sarif')
+  importSarif(@Param('id') id: string, @Body() sarifUploadDto: SarifUploadDto) {
+    return this.reposService.importSarif(id, sarifUploadDto);
+  }
+
+  @Get(':id/ownership/tree')
+  getOwnershipTree(@Param('id') id: string) {
+    return this.reposService.getOwnershipTree(id);
+  }
 }
@@ -1,5 +1,25 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { findingsFromSarif } from 'findings';
+import { SarifUploadDto } from './dto/sarif-upload.dto';
+import { SBOM_FORMATS, SbomFormat, toCycloneDx, toSpdx } from './sbom';
+import {
+  ComplexityReport,
+  DirectoryInventory,
+  FileInventory,
+  HistoryAnalytics,
+  LanguageBreakdown,
+  Sbom,
+  StackProfile,
+  VULNERABILITY_SEVERITIES,
+  VulnerabilitySeverity,
+} from 'types';
+
+export interface OwnershipNode {
+  path: string;
+  authors: { authorId: string; author: string; share: number }[];
+  children: OwnershipNode[];
+}
 
 @Injectable()
 export class ReposService {
@@ -11,4 +31,229 @@ export class ReposService {
       orderBy: { share: 'desc' },
     });
   }
+
+  async getLanguages(repoId: string) {
+    const repo = await this.prisma.repo.findUnique({
+      where: { id: repoId },
+      select: { id: true, loc: true, languages: true },
+    });
+
+    if (!repo) {
+      return null;
+    }
+
+    return { repoId: repo.id, loc: repo.loc, languages: (repo.languages || []) as unknown as LanguageBreakdown[] };
+  }
+
+  // One level of the file map: the directory's rollup plus its immediate subdirectories and files.
+  async getInventory(repoId: string, directoryPath = '.') {
+    const repo = await this.prisma.repo.findUnique({
+      where: { id: repoId },
+      select: { id: true, fileMap: true },
+    });
+
+    if (!repo) {
+      return null;
+    }
+
+    const fileMap = (repo.fileMap || { directories: [], files: [] }) as unknown as {
+      directories: DirectoryInventory[];
+      files: FileInventory[];
+    };
+    const directory = fileMap.directories.find(entry => entry.path === directoryPath);
+    if (!directory) {
+      return null;
+    }
+
+    return {
+      repoId: repo.id,
+      directory,
+      directories: fileMap.directories.filter(entry => entry.path !== '.' && parentOf(entry.path) === directoryPath),
+      files: fileMap.files.filter(entry => parentOf(entry.path) === directoryPath),
+    };
+  }
+
+  async getStack(repoId: string) {
+    const repo = await this.prisma.repo.findUnique({
+      where: { id: repoId },
+      select: { id: true, stack: true },
+    });
+
+    if (!repo) {
+      return null;
+    }
+
+    return { repoId: repo.id, stack: repo.stack as unknown as StackProfile | null };
+  }
+
+  async getHotspots(repoId: string) {
+    const repo = await this.prisma.repo.findUnique({
+      where: { id: repoId },
+      select: { id: true, busFactor: true, history: true },
+    });
+
+    if (!repo) {
+      return null;
+    }
+
+    const history = (repo.history || {}) as Partial<HistoryAnalytics>;
+    return {
+      repoId: repo.id,
+      busFactor: repo.busFactor,
+      hotspots: history.hotspots || [],
+      churn: history.churn || [],
+      busFactorByDirectory: history.busFactor || [],
+    };
+  }
+
+  async getComplexity(repoId: string, limit: number) {
+    const repo = await this.prisma.repo.findUnique({
+      where: { id: repoId },
+      select: { id: true, complexity: true, complexityReport: true },
+    });
+
+    if (!repo) {
+      return null;
+    }
+
+    const report = (repo.complexityReport || {}) as Partial<ComplexityReport>;
+    return {
+      repoId: repo.id,
+      avgCyclomatic: repo.complexity,
+      avgCognitive: report.avgCognitive ?? null,
+      functions: (report.topFunctions || []).slice(0, Math.max(limit, 0)),
+    };
+  }
+
+  // Most severe first, then by CVSS score and package, ready for a table.
+  async getVulnerabilities(repoId: string) {
+    const repo = await this.prisma.repo.findUnique({
+      where: { id: repoId },
+      select: { id: true, vulnCount: true },
+    });
+
+    if (!repo) {
+      return null;
+    }
+
+    const vulnerabilities = await this.prisma.vulnerability.findMany({
+      where: { repoId },
+      select: {
+        advisoryId: true,
+        aliases: true,
+        summary: true,
+        ecosystem: true,
+        package: true,
+        version: true,
+        lockfile: true,
+        direct: true,
+        severity: true,
+        cvssScore: true,
+        cvssVector: true,
+        fixedVersion: true,
+      },
+    });
+    const rank = (severity: string) => VULNERABILITY_SEVERITIES.indexOf(severity as VulnerabilitySeverity);
+    vulnerabilities.sort((a, b) =>
+      rank(a.severity) - rank(b.severity)
+      || (b.cvssScore ?? 0) - (a.cvssScore ?? 0)
+      || a.package.localeCompare(b.package),
+    );
+
+    const bySeverity = Object.fromEntries(VULNERABILITY_SEVERITIES.map(severity =>
+      [severity, vulnerabilities.filter(vulnerability => vulnerability.severity === severity).length]));
+    return { repoId: repo.id, vulnCount: repo.vulnCount, bySeverity, vulnerabilities };
+  }
+
+  async exportSbom(repoId: string, format: string) {
+    if (!SBOM_FORMATS.includes(format as SbomFormat)) {
+      throw new BadRequestException(`format must be one of: ${SBOM_FORMATS.join(', ')}`);
+    }
+
+    const repo = await this.prisma.repo.findUnique({
+      where: { id: repoId },
+      select: { id: true, name: true, url: true, commitSha: true, createdAt: true, sbom: true },
+    });
+    if (!repo) {
+      throw new NotFoundException('Repository not found');
+    }
+    if (!repo.sbom) {
+      throw new NotFoundException('No SBOM was generated for this repository');
+    }
+
+    const sbom = repo.sbom as unknown as Sbom;
+    return format === 'spdx' ? toSpdx(repo, sbom) : toCycloneDx(repo, sbom);
+  }
+
+  async getSecrets(repoId: string) {
+    const repo = await this.prisma.repo.findUnique({
+      where: { id: repoId },
+      select: { id: true, secretsFound: true },
+    });
+
+    if (!repo) {
+      return null;
+    }
+
+    const secrets = await this.prisma.secretFinding.findMany({
+      where: { repoId },
+      orderBy: [{ path: 'asc' }, { line: 'asc' }],
+      select: { type: true, path: true, line: true, commitSha: true, redacted: true, fingerprint: true },
+    });
+    return { repoId: repo.id, secretsFound: repo.secretsFound, secrets };
+  }
+
+  async importSarif(repoId: string, sarifUploadDto: SarifUploadDto) {
+    const repo = await this.prisma.repo.findUnique({ where: { id: repoId }, select: { id: true } });
+    if (!repo) {
+      throw new NotFoundException('Repository not found');
+    }
+
+    const existing = await this.prisma.finding.findMany({ where: { repoId }, select: { fingerprint: true } });
+    const known = new Set(existing.map(finding => finding.fingerprint));
+    // Also drops repeats within the upload, such as the same result reported by two runs.
+    const findings = findingsFromSarif(sarifUploadDto).filter(finding => {
+      if (known.has(finding.fingerprint)) {
+        return false;
+      }
+      known.add(finding.fingerprint);
+      return true;
+    });
+
+    await this.prisma.finding.createMany({ data: findings.map(finding => ({ ...finding, repoId })) });
+    return { repoId, imported: findings.length };
+  }
+
+  // Nests the per-directory ownership rows under their parent directories, rooted at '.'.
+  async getOwnershipTree(repoId: string): Promise<OwnershipNode | null> {
+    const rows = await this.getOwnership(repoId);
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const nodes = new Map<string, OwnershipNode>();
+    for (const row of rows) {
+      const node: OwnershipNode = nodes.get(row.path) || { path: row.path, authors: [], children: [] };
+      node.authors.push({ authorId: row.authorId, author: row.author, share: row.share });
+      nodes.set(row.path, node);
+    }
+
+    for (const node of nodes.values()) {
+      if (node.path === '.') {
+        continue;
+      }
+      nodes.get(parentOf(node.path))?.children.push(node);
+    }
+
+    for (const node of nodes.values()) {
+      node.children.sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    return nodes.get('.') || null;
+  }
+}
+
+function parentOf(filePath: string): string {
+  const index = filePath.lastIndexOf('/');
+  return index === -1 ? '.' : filePath.slice(0, index);
 }
@@ -0,0 +1,127 @@
+import { randomUUID } from 'crypto';
+import { Sbom, SbomComponent } from 'types';
+
+export const SBOM_FORMATS = ['cyclonedx', 'spdx'] as const;
+
+export type SbomFormat = (typeof SBOM_FORMATS)[number];
+
+// The analyzed repository, which both formats describe as the root the components belong to.
+export interface SbomSubject {
+  id: string;
+  name: string;
+  url: string;
+  commitSha: string | null;
+  createdAt: Date;
+}
+
+const TOOL_NAME = 'devatlas';
+
+/**
+ * A CycloneDX 1.5 JSON document. The dependency graph holds the edges the
+ * lockfiles state: the repository depends on its direct dependencies, and
+ * transitive ones are listed as components only.
+ */
+export function toCycloneDx(subject: SbomSubject, sbom: Sbom) {
+  const root = `repo:${subject.id}`;
+  return {
+    bomFormat: 'CycloneDX',
+    specVersion: '1.5',
+    serialNumber: `urn:uuid:${randomUUID()}`,
+    version: 1,
+    metadata: {
+      timestamp: subject.createdAt.toISOString(),
+      tools: { components: [{ type: 'application', name: TOOL_NAME }] },
+      component: {
+        type: 'application',
+        'bom-ref': root,
+        name: subject.name,
+        ...(subject.commitSha && { version: subject.commitSha }),
+        externalReferences: [{ type: 'vcs', url: subject.url }],
+      },
+    },
+    components: sbom.components.map(component => ({
+      type: 'library',
+      'bom-ref': component.purl,
+      name: component.name,
+      version: component.version,
+      purl: component.purl,
+      ...(component.license && {
+        licenses: isLicenseExpression(component.license)
+          ? [{ expression: component.license }]
+          : [{ license: { name: component.license } }],
+      }),
+      ...(component.hashes.length > 0 && {
+        hashes: component.hashes.map(hash => ({ alg: hash.algorithm, content: hash.value })),
+      }),
+      properties: [{ name: `${TOOL_NAME}:lockfile`, value: component.lockfile }],
+    })),
+    dependencies: [{ ref: root, dependsOn: directComponents(sbom).map(component => component.purl) }],
+  };
+}
+
+/**
+ * An SPDX 2.3 JSON document. The repository is the described package and
+ * DEPENDS_ON its direct dependencies; licenses that are not SPDX
+ * expressions are left as NOASSERTION.
+ */
+export function toSpdx(subject: SbomSubject, sbom: Sbom) {
+  const root = 'SPDXRef-Repository';
+  const ids = new Map(sbom.components.map((component, index) => [component.purl, `SPDXRef-Package-${index + 1}`]));
+  return {
+    spdxVersion: 'SPDX-2.3',
+    dataLicense: 'CC0-1.0',
+    SPDXID: 'SPDXRef-DOCUMENT',
+    name: subject.name,
+    documentNamespace: `https://spdx.org/spdxdocs/${encodeURIComponent(subject.name)}-${randomUUID()}`,
+    creationInfo: {
+      // SPDX timestamps have no fractional seconds.
+      created: subject.createdAt.toISOString().replace(/\.\d+Z$/, 'Z'),
+      creators: [`Tool: ${TOOL_NAME}`],
+    },
+    packages: [
+      {
+        SPDXID: root,
+        name: subject.name,
+        ...(subject.commitSha && { versionInfo: subject.commitSha }),
+        downloadLocation: subject.url,
+        filesAnalyzed: false,
+        licenseConcluded: 'NOASSERTION',
+        licenseDeclared: 'NOASSERTION',
+        copyrightText: 'NOASSERTION',
+      },
+      ...sbom.components.map(component => ({
+        SPDXID: ids.get(component.purl)!,
+        name: component.name,
+        versionInfo: component.version,
+        downloadLocation: 'NOASSERTION',
+        filesAnalyzed: false,
+        licenseConcluded: 'NOASSERTION',
+        licenseDeclared: component.license && isLicenseExpression(component.license) ? component.license : 'NOASSERTION',
+        copyrightText: 'NOASSERTION',
+        ...(component.hashes.length > 0 && {
+          checksums: component.hashes.map(hash => ({ algorithm: hash.algorithm.replace('-', ''), checksumValue: hash.value })),
+        }),
+        externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: component.purl }],
+      })),
+    ],
+    relationships: [
+      { spdxElementId: 'SPDXRef-DOCUMENT', relationshipType: 'DESCRIBES', relatedSpdxElement: root },
+      ...directComponents(sbom).map(component => ({
+        spdxElementId: root,
+        relationshipType: 'DEPENDS_ON',
+        relatedSpdxElement: ids.get(component.purl)!,
+      })),
+    ],
+  };
+}
+
+function directComponents(sbom: Sbom): SbomComponent[] {
+  return sbom.components.filter(component => component.direct);
+}
+
+// `MIT` or `(MIT OR Apache-2.0)`, as opposed to the free text npm also accepts, such as `SEE LICENSE IN LICENSE.txt`.
+function isLicenseExpression(license: string): boolean {
+  const tokens = license.replace(/[()]/g, ' ').trim().split(/\s+/);
+  return tokens.length % 2 === 1 && tokens.every((token, index) =>
+    index % 2 === 1 ? ['AND', 'OR', 'WITH'].includes(token) : /^[A-Za-z0-9.-]+\+?$/.test(token) && token !== 'UNLICENSED');
+}
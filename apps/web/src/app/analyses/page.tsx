@@ -78,7 +78,7 @@ export default function AnalysesPage() {
                         <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                           analysis.status === 'complete' 
                             ? 'bg-green-100 text-green-800' 
-                            : analysis.status === 'running' || analysis.status === 'queued'
+                            : analysis.status === 'running' || analysis.status === 'queued' || analysis.status === 'retrying'
                             ? 'bg-yellow-100 text-yellow-800'
                             : analysis.status === 'failed'
                             ? 'bg-red-100 text-red-800'
@@ -1,6 +1,6 @@
 'use client';
 
-import { FullProject } from '../lib/api';
+import { FullProject, LanguageShare } from '../lib/api';
 
 const DetailRow = ({ label, value }: { label: string; value: string | number }) => (
   <div className="flex justify-between py-2 border-b border-gray-200">
@@ -24,12 +24,39 @@ const ScoreBar = ({ label, score }: { label: string; score: number }) => {
     );
 };
 
+const LANGUAGE_COLORS = ['bg-blue-500', 'bg-green-500', 'bg-yellow-500', 'bg-purple-500', 'bg-pink-500', 'bg-gray-400'];
+
+const LanguageMix = ({ languages }: { languages: LanguageShare[] }) => {
+    const top = languages.slice(0, 5);
+    const otherShare = languages.slice(5).reduce((acc, language) => acc + language.share, 0);
+    const segments = otherShare > 0 ? [...top, { language: 'Other', share: otherShare }] : top;
+    return (
+        <div>
+            <div className="flex w-full h-2.5 rounded-full overflow-hidden bg-gray-200">
+                {segments.map((segment, index) => (
+                    <div key={segment.language} className={LANGUAGE_COLORS[index]} style={{ width: `${segment.share * 100}%` }}></div>
+                ))}
+            </div>
+            <ul className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-sm">
+                {segments.map((segment, index) => (
+                    <li key={segment.language} className="flex items-center gap-1">
+                        <span className={`inline-block w-2 h-2 rounded-full ${LANGUAGE_COLORS[index]}`}></span>
+                        <span className="text-gray-700">{segment.language}</span>
+                        <span className="text-gray-500">{`${(segment.share * 100).toFixed(1)}%`}</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
 export default function AnalysisDetails({ project }: { project: FullProject }) {
   const latestAnalysis = project.analyses[0];
-  if (!latestAnalysis) return <div className="p-4 text-center">No analysis available.</div>;
+  if (!latestAnalysis || !latestAnalysis.score) return <div className="p-4 text-center">No analysis available.</div>;
 
   const repo = latestAnalysis.repos[0];
   const score = latestAnalysis.score;
+  const rootOwnership = repo.ownership.filter(owner => owner.path === '.');
 
   return (
     <div className="bg-gray-50 p-6">
@@ -40,11 +67,36 @@ export default function AnalysisDetails({ project }: { project: FullProject }) {
           <h3 className="text-xl font-bold mb-4">Analysis Report</h3>
           <p className="text-gray-700 mb-6 italic">{latestAnalysis.summary}</p>
           <div className="space-y-4">
-            <DetailRow label="Dominant Language" value={repo.language} />
+            {repo.languages && repo.languages.length > 0
+              ? <LanguageMix languages={repo.languages} />
+              : <DetailRow label="Dominant Language" value={repo.language} />}
             <DetailRow label="Lines of Code" value={repo.loc.toLocaleString()} />
-            <DetailRow label="Lint Issues" value={repo.lintIssues} />
+            <DetailRow
+              label="Lint Issues"
+              value={repo.lintIssues < 0 ? 'Not measured' : `${repo.lintErrors} errors, ${repo.lintWarnings} warnings`}
+            />
             <DetailRow label="Dependency Vulnerabilities" value={repo.vulnCount} />
+            <DetailRow label="Leaked Secrets" value={repo.secretsFound} />
+            <DetailRow label="Tests" value={repo.hasTests ? 'Detected' : 'None found'} />
+            <DetailRow label="CI" value={repo.hasCI ? 'Configured' : 'None found'} />
+            {repo.lineCoverage !== null && <DetailRow label="Line Coverage" value={`${repo.lineCoverage}%`} />}
           </div>
+          {repo.excludedPaths && repo.excludedPaths.length > 0 && (
+            <div className="mt-6">
+              <h4 className="font-semibold text-gray-700 mb-2">Excluded from analysis</h4>
+              <ul className="space-y-1 text-sm">
+                {repo.excludedPaths.slice(0, 10).map(entry => (
+                  <li key={entry.path} className="flex justify-between">
+                    <span className="font-mono text-gray-700">{entry.path}</span>
+                    <span className="text-gray-500">{`${entry.reason} · ${entry.files} files`}</span>
+                  </li>
+                ))}
+              </ul>
+              {repo.excludedPaths.length > 10 && (
+                <p className="text-xs text-gray-500 mt-1">and {repo.excludedPaths.length - 10} more</p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Right Column: Scores & Ownership */}
@@ -60,8 +112,11 @@ export default function AnalysisDetails({ project }: { project: FullProject }) {
             </div>
             <div className="bg-white p-6 rounded-lg shadow">
                 <h3 className="text-xl font-bold mb-4">Top Contributors</h3>
+                {rootOwnership[0]?.historyWindow && (
+                    <p className="text-xs text-gray-500 mb-2">Blame history: {rootOwnership[0].historyWindow}</p>
+                )}
                 <ul className="space-y-2">
-                {repo.ownership.slice(0, 5).map(owner => (
+                {rootOwnership.slice(0, 5).map(owner => (
                     <li key={owner.id} className="flex justify-between text-sm">
                     <span>{owner.author}</span>
                     <span className="font-medium">{`${(owner.share * 100).toFixed(1)}%`}</span>
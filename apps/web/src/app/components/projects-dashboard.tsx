@@ -121,7 +121,7 @@ export default function ProjectsDashboard() {
                         <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                           project.status === 'complete' 
                             ? 'bg-green-100 text-green-800' 
-                            : project.status === 'running' || project.status === 'queued'
+                            : project.status === 'running' || project.status === 'queued' || project.status === 'retrying'
                             ? 'bg-yellow-100 text-yellow-800'
                             : project.status === 'failed'
                             ? 'bg-red-100 text-red-800'
@@ -151,7 +151,7 @@ export default function ProjectsDashboard() {
                       <td className="px-6 py-4 whitespace-nowrap space-x-2">
                         <button
                           onClick={() => analyzeProjectMutation.mutate(project.id)}
-                          disabled={analyzeProjectMutation.isPending || project.status === 'running' || project.status === 'queued'}
+                          disabled={analyzeProjectMutation.isPending || project.status === 'running' || project.status === 'queued' || project.status === 'retrying'}
                           className="bg-blue-600 text-white px-3 py-1.5 rounded-md text-sm hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
                         >
                           {analyzeProjectMutation.isPending ? 'Analyzing...' : 'Analyze'}
@@ -18,8 +18,23 @@ interface Score {
 
 interface Ownership {
   id: string;
+  path: string;
   author: string;
   share: number;
+  historyWindow: string | null;
+}
+
+interface ExcludedPath {
+  path: string;
+  reason: string;
+  files: number;
+}
+
+export interface LanguageShare {
+  language: string;
+  files: number;
+  code: number;
+  share: number;
 }
 
 interface Repo {
@@ -27,9 +42,17 @@ interface Repo {
   name: string;
   language: string;
   loc: number;
+  languages: LanguageShare[] | null;
   lintIssues: number;
+  lintErrors: number;
+  lintWarnings: number;
   vulnCount: number;
+  secretsFound: number;
   readmeScore: number;
+  hasTests: boolean;
+  hasCI: boolean;
+  lineCoverage: number | null;
+  excludedPaths: ExcludedPath[] | null;
   ownership: Ownership[];
 }
 
@@ -43,7 +66,7 @@ interface Analysis {
 export interface FullProject {
   id: string;
   handle: string;
-  type: 'user' | 'org';
+  type: 'user' | 'org' | 'repo';
   status: string;
   createdAt: string;
   analyses: Analysis[];
@@ -56,7 +79,7 @@ export const getProjects = async (): Promise<FullProject[]> => {
   return response.data;
 };
 
-export const createProject = async (data: { handle: string; type: 'user' | 'org', orgId: string }): Promise<FullProject> => {
+export const createProject = async (data: { handle: string; type: 'user' | 'org' | 'repo', orgId: string }): Promise<FullProject> => {
     const response = await apiClient.post('/projects', data);
     return response.data;
 };
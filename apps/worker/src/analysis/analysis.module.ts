@@ -4,6 +4,20 @@ import { SecurityModule } from '../security/security.module';
 import { StaticAnalysisModule } from '../static-analysis/static-analysis.module';
 import { InventoryModule } from '../inventory/inventory.module';
 import { GitModule } from '../git/git.module';
+import { DiscoveryModule } from '../discovery/discovery.module';
+import { ProvidersModule } from '../providers/providers.module';
+import { CredentialsModule } from '../credentials/credentials.module';
+import { CacheModule } from '../cache/cache.module';
+import { OwnershipModule } from '../ownership/ownership.module';
+import { IdentityModule } from '../identity/identity.module';
+import { HistoryModule } from '../history/history.module';
+import { WorkspaceModule } from '../workspace/workspace.module';
+import { ExclusionsModule } from '../exclusions/exclusions.module';
+import { StackModule } from '../stack/stack.module';
+import { ReliabilityModule } from '../reliability/reliability.module';
+import { ComplexityModule } from '../complexity/complexity.module';
+import { SecretsModule } from '../secrets/secrets.module';
+import { SbomModule } from '../sbom/sbom.module';
 import { Module } from '@nestjs/common';
 import { AnalysisProcessor } from './analysis.processor';
 import { AiApiModule } from '../ai/ai.api.module';
@@ -16,9 +30,23 @@ import { BullModule } from '@nestjs/bullmq';
     AiApiModule,
     PrismaModule,
     GitModule,
+    DiscoveryModule,
+    ProvidersModule,
+    CredentialsModule,
+    CacheModule,
+    OwnershipModule,
+    IdentityModule,
+    HistoryModule,
+    WorkspaceModule,
+    ExclusionsModule,
+    StackModule,
+    ReliabilityModule,
     InventoryModule,
     StaticAnalysisModule,
+    ComplexityModule,
     SecurityModule,
+    SecretsModule,
+    SbomModule,
     DocsModule,
     ScoringModule,
   ],
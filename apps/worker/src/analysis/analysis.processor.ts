@@ -1,14 +1,60 @@
 import { Processor, Process } from '@nestjs/bullmq';
-import { Job } from 'bullmq';
+import { Job, UnrecoverableError } from 'bullmq';
+import * as path from 'path';
 import { PrismaService } from '../prisma/prisma.service';
+import { toJson } from '../prisma/json';
 import { AiService } from 'ai';
-import { GitService } from '../git/git.service';
+import { describeHistoryWindow, GitService } from '../git/git.service';
 import { InventoryService } from '../inventory/inventory.service';
 import { StaticAnalysisService } from '../static-analysis/static-analysis.service';
 import { SecurityService } from '../security/security.service';
 import { DocsService } from '../docs/docs.service';
 import { ScoringService } from '../scoring/scoring.service';
-import { AnalysisMetrics } from 'types';
+import { DiscoveryService } from '../discovery/discovery.service';
+import { GitProvider, RemoteRepository } from '../providers/git-provider.interface';
+import { GitProviderRegistry } from '../providers/git-provider.registry';
+import { CredentialsService } from '../credentials/credentials.service';
+import { CacheKey, CacheResult, CacheService } from '../cache/cache.service';
+import { ToolContext } from '../tools/tool-runner.service';
+import { ANALYZER_VERSIONS, AnalyzerPhase } from '../cache/analyzer-versions';
+import { OwnershipService } from '../ownership/ownership.service';
+import { IdentityService } from '../identity/identity.service';
+import { IdentityResolver } from '../identity/identity-resolver';
+import { HistoryService } from '../history/history.service';
+import { WorkspaceService } from '../workspace/workspace.service';
+import { ExclusionSet, ExclusionsService } from '../exclusions/exclusions.service';
+import { StackService } from '../stack/stack.service';
+import { ReliabilityService } from '../reliability/reliability.service';
+import { ComplexityService } from '../complexity/complexity.service';
+import { SecretsService } from '../secrets/secrets.service';
+import { SbomService } from '../sbom/sbom.service';
+import { PhaseTracker } from './phase-tracker';
+import { watchForCancellation } from './cancellation';
+import {
+  AnalysisMetrics,
+  CiStep,
+  CommitQuality,
+  CoverageStatus,
+  ProjectSettings,
+  PullRequestActivity,
+  resolveProjectSettings,
+  VULNERABILITY_SEVERITIES,
+  VulnerabilitySeverity,
+} from 'types';
+import { redactSecrets } from 'credentials';
+import { createHash } from 'crypto';
+
+export interface AnalyzeProjectJob {
+  projectId: string;
+  // Set once the job has created its Analysis; retries resume that analysis instead of starting over.
+  analysisId?: string;
+}
+
+interface RepositoryResult {
+  metrics: AnalysisMetrics;
+  commitSha: string;
+  fullyCached: boolean;
+}
 
 @Processor('analysis')
 export class AnalysisProcessor {
@@ -21,10 +67,24 @@ export class AnalysisProcessor {
     private readonly security: SecurityService,
     private readonly docs: DocsService,
     private readonly scoring: ScoringService,
+    private readonly discovery: DiscoveryService,
+    private readonly providers: GitProviderRegistry,
+    private readonly credentials: CredentialsService,
+    private readonly cache: CacheService,
+    private readonly ownership: OwnershipService,
+    private readonly identity: IdentityService,
+    private readonly history: HistoryService,
+    private readonly workspaces: WorkspaceService,
+    private readonly exclusions: ExclusionsService,
+    private readonly stacks: StackService,
+    private readonly reliability: ReliabilityService,
+    private readonly complexity: ComplexityService,
+    private readonly secrets: SecretsService,
+    private readonly sbom: SbomService,
   ) {}
 
   @Process('analyze-project')
-  async handleAnalyzeProject(job: Job<{ projectId: string }>) {
+  async handleAnalyzeProject(job: Job<AnalyzeProjectJob>) {
     const { projectId } = job.data;
     console.log(`Processing analysis for project: ${projectId}`);
 
@@ -33,81 +93,98 @@ export class AnalysisProcessor {
       throw new Error(`Project with ID ${projectId} not found.`);
     }
 
+    if (job.data.analysisId) {
+      const existing = await this.prisma.analysis.findUnique({ where: { id: job.data.analysisId } });
+      if (existing?.status === 'cancelled') {
+        console.log(`Analysis ${existing.id} was cancelled before it started.`);
+        return;
+      }
+    }
+
+    const analysis = job.data.analysisId
+      ? await this.prisma.analysis.update({
+          where: { id: job.data.analysisId },
+          data: { status: 'running', finishedAt: null },
+        })
+      : await this.prisma.analysis.create({
+          data: { projectId: projectId, status: 'running' },
+        });
+    await job.updateData({ ...job.data, analysisId: analysis.id });
+
+    let token: string | null = null;
+    const cancellation = watchForCancellation(this.prisma, analysis.id);
+    const phases = new PhaseTracker(
+      this.prisma,
+      analysis.id,
+      analysis.phases,
+      message => redactSecrets(message, [token]),
+      cancellation.signal,
+    );
+    let workspace: string | null = null;
     try {
+      workspace = await this.workspaces.create(analysis.id);
       await this.prisma.project.update({
         where: { id: projectId },
         data: { status: 'running' },
       });
 
-      const repoUrl = `https://github.com/${project.handle}.git`;
-      const localPath = `/tmp/devatlas/${projectId}`;
+      token = await this.credentials.resolveToken(project);
+      const provider = this.providers.resolve(project, { token });
 
-      await this.git.clone(repoUrl, localPath);
-
-      const inventoryResult = await this.inventory.analyze(localPath);
-      const totalLoc = inventoryResult.SUM?.code || 0;
-
-      let dominantLanguage = 'N/A';
-      let maxLoc = 0;
-      for (const lang in inventoryResult) {
-        if (lang !== 'SUM') {
-          if (inventoryResult[lang].code > maxLoc) {
-            maxLoc = inventoryResult[lang].code;
-            dominantLanguage = lang;
-          }
-        }
+      const repositories = await phases.run('discover', null, () => this.discovery.discover(project, provider));
+      if (repositories.length === 0) {
+        throw new Error(`No repositories to analyze for ${project.handle}.`);
       }
-      console.log(`Inventory complete. Dominant language: ${dominantLanguage}, Total LOC: ${totalLoc}`);
-
-      const lintIssues = await this.staticAnalysis.analyze(localPath, dominantLanguage);
-      const vulnCount = await this.security.analyze(localPath);
-      const readmeScore = await this.docs.analyzeReadme(localPath);
-
-      const blameSummary = await this.git.getBlameSummary(localPath);
-      const totalLines = Array.from(blameSummary.values()).reduce((acc, count) => acc + count, 0);
-      const ownershipData = [];
-      for (const [author, count] of blameSummary.entries()) {
-        ownershipData.push({
-          author: author,
-          share: totalLines > 0 ? count / totalLines : 0,
-        });
+
+      const settings = resolveProjectSettings(project.settings);
+      const org = await this.prisma.org.findUnique({ where: { id: project.orgId } });
+      const results: RepositoryResult[] = [];
+      for (const repository of repositories) {
+        const localPath = path.join(workspace, repository.fullName);
+        results.push(await this.analyzeRepository(
+          analysis.id,
+          phases,
+          provider,
+          repository,
+          localPath,
+          token,
+          settings,
+          org?.identityRules,
+          org?.ignorePatterns || [],
+          org?.secretAllowlist || [],
+        ));
       }
-      console.log('Ownership analysis complete.');
-
-      const metrics: AnalysisMetrics = {
-        handle: project.handle,
-        dominantLanguage,
-        totalLoc,
-        lintIssues,
-        vulnCount,
-        readmeScore,
-      };
 
-      const summary = await this.ai.summarizeRepo(metrics);
-      const scores = this.scoring.calculateScores(metrics);
+      const metrics = this.aggregateMetrics(project.handle, results.map(result => result.metrics));
+      // The project summary is keyed by the set of analyzed commits and the metrics it describes, which can change
+      // without a commit (advisories, allowlists, identity rules, stars), so it is only reused when neither moved.
+      const revision = createHash('sha256')
+        .update(results.map(result => `${result.metrics.handle}@${result.commitSha}`).sort().join('\n'))
+        .digest('hex');
+      const summaryKey: CacheKey = {
+        repoUrl: `${provider.kind}:${project.host || ''}:${project.handle}`,
+        commitSha: revision,
+        phase: 'summary',
+        variant: digestOf(metrics),
+      };
+      const summary = await phases.run('summary', null, () =>
+        this.cache.remember(summaryKey, () => this.ai.summarizeRepo(metrics)), summaryKey);
+      const scores = await phases.run('scoring', null, async () => this.scoring.calculateScores(metrics));
 
-      await this.prisma.analysis.create({
+      // The watcher only polls every few seconds; an analysis cancelled since then must not be marked complete.
+      if (await cancellation.check()) {
+        throw new Error(`Analysis ${analysis.id} was cancelled before it could be stored.`);
+      }
+      await this.prisma.analysis.update({
+        where: { id: analysis.id },
         data: {
-          projectId: projectId,
           status: 'complete',
-          summary: summary,
+          finishedAt: new Date(),
+          fromCache: summary.hit && results.every(result => result.fullyCached),
+          summary: summary.value,
           score: {
             create: scores,
           },
-          repos: {
-            create: {
-              name: project.handle,
-              url: repoUrl,
-              language: dominantLanguage,
-              loc: totalLoc,
-              lintIssues: lintIssues,
-              vulnCount: vulnCount,
-              readmeScore: readmeScore,
-              ownership: {
-                create: ownershipData,
-              },
-            },
-          },
         },
       });
 
@@ -118,12 +195,350 @@ export class AnalysisProcessor {
 
       console.log(`Analysis complete for project: ${projectId}`);
     } catch (error) {
-      console.error(`Analysis failed for project: ${projectId}`, error);
+      // Provider errors can carry request headers, so only the redacted stack is logged.
+      const details = error instanceof Error ? error.stack || error.message : String(error);
+      if (cancellation.signal.aborted) {
+        console.log(`Analysis cancelled for project: ${projectId}`);
+        await this.prisma.analysis.update({
+          where: { id: analysis.id },
+          data: { finishedAt: new Date() },
+        });
+        await this.prisma.project.update({
+          where: { id: projectId },
+          data: { status: 'cancelled' },
+        });
+        // Cancelled jobs must not be retried by BullMQ.
+        throw new UnrecoverableError(`Analysis ${analysis.id} was cancelled.`);
+      }
+      console.error(`Analysis failed for project: ${projectId}`, redactSecrets(details, [token]));
+      // While BullMQ still has attempts left the analysis is only retrying; marking it failed would let a manual
+      // retry queue a second job for the same analysis.
+      const lastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+      await this.prisma.analysis.update({
+        where: { id: analysis.id },
+        data: lastAttempt ? { status: 'failed', finishedAt: new Date() } : { status: 'retrying' },
+      });
       await this.prisma.project.update({
         where: { id: projectId },
-        data: { status: 'failed' },
+        data: { status: lastAttempt ? 'failed' : 'retrying' },
       });
       throw error; // Re-throw error to let BullMQ handle job failure
+    } finally {
+      cancellation.stop();
+      if (workspace) {
+        await this.workspaces.release(workspace);
+      }
     }
   }
+
+  private async analyzeRepository(
+    analysisId: string,
+    phases: PhaseTracker,
+    provider: GitProvider,
+    repository: RemoteRepository,
+    localPath: string,
+    token: string | null,
+    settings: ProjectSettings,
+    identityRules: unknown,
+    ignorePatterns: string[],
+    secretAllowlist: string[],
+  ): Promise<RepositoryResult> {
+    console.log(`Analyzing repository: ${repository.fullName}`);
+    const repo = repository.fullName;
+    const auth = token && provider.cloneUsername ? { username: provider.cloneUsername, token } : undefined;
+    const commitSha = await phases.run('checkout', repo, () => this.git.resolveHead(repository.cloneUrl, auth));
+    const history = this.git.resolveHistoryWindow(settings, repository.sizeKb);
+    const historyWindow = describeHistoryWindow(history);
+
+    // Clone lazily: a repository whose phases are all cached at this commit is never fetched.
+    let cloned = false;
+    const checkout = async () => {
+      if (!cloned) {
+        await this.workspaces.clone(
+          repository.cloneUrl,
+          localPath,
+          repository.sizeKb,
+          settings.maxRepoSizeKb,
+          history,
+          auth,
+          phases.signal,
+        );
+      }
+      cloned = true;
+      return localPath;
+    };
+
+    // Every cacheable phase records whether its output came from the commit cache.
+    const cachedPhases: AnalyzerPhase[] = [];
+    const phase = async <T>(name: AnalyzerPhase, run: (context: ToolContext) => Promise<T>, variant?: string): Promise<T> => {
+      const key: CacheKey = { repoUrl: repository.cloneUrl, commitSha, phase: name, variant };
+      const result: CacheResult<T> = await phases.run(name, repo, context =>
+        this.cache.remember(key, () => run(context)), key);
+      if (result.hit) {
+        cachedPhases.push(name);
+      }
+      return result.value;
+    };
+
+    // Org patterns change what every later phase sees, so their hash is part of each phase's cache key.
+    const exclusionVariant = ignorePatterns.length > 0
+      ? createHash('sha256').update(ignorePatterns.join('\n')).digest('hex').slice(0, 16)
+      : '';
+    const exclusions: ExclusionSet = await phase('exclusions', async () =>
+      this.exclusions.resolve(await checkout(), ignorePatterns), exclusionVariant);
+    const files = exclusions.included;
+    // Lockfiles are excluded from code metrics but are exactly what stack detection and the dependency audit read.
+    const lockfiles = exclusions.excluded.filter(entry => entry.reason === 'lockfile').map(entry => entry.path);
+
+    const inventory = await phase('inventory', async context =>
+      this.inventory.analyze(await checkout(), files, context), exclusionVariant);
+    const totalLoc = inventory.totals.code;
+    const dominantLanguage = inventory.languages[0]?.language || 'N/A';
+    console.log(`Inventory complete. Dominant language: ${dominantLanguage}, Total LOC: ${totalLoc}`);
+    const stack = await phase('stack', async () => this.stacks.detect(await checkout(), [...files, ...lockfiles]), exclusionVariant);
+
+    const lint = await phase('lint', async context => {
+      const options = { runRepoConfig: settings.runRepoEslintConfig };
+      return this.staticAnalysis.analyze(await checkout(), files, inventory.files, options, context);
+    }, [exclusionVariant, settings.runRepoEslintConfig ? 'repo-eslint' : ''].filter(part => part).join(':'));
+    // -1 still marks a repository where no applicable analyzer completed, so it is not mistaken for a clean one.
+    const lintIssues = lint.analyzers.length > 0 && lint.analyzers.every(run => run.status !== 'ok') ? -1 : lint.findings.length;
+    const lintErrors = lint.analyzers.reduce((acc, run) => acc + run.errors, 0);
+    const lintWarnings = lint.analyzers.reduce((acc, run) => acc + run.warnings, 0);
+    const complexity = await phase('complexity', async context =>
+      this.complexity.analyze(await checkout(), files, context), exclusionVariant);
+    // A refreshed advisory database changes the audit without a new commit, so its revision is part of the key.
+    const advisories = await this.security.databaseRevision();
+    const audit = await phase('audit', async () => this.security.analyze(await checkout(), [...files, ...lockfiles]),
+      [exclusionVariant, advisories].filter(part => part).join(':'));
+    // -1 marks a repository whose locked ecosystems the advisory database does not cover, as it did a failed audit tool.
+    const vulnCount = audit.ecosystems.length > 0 && audit.ecosystems.every(ecosystem => audit.unaudited.includes(ecosystem))
+      ? -1
+      : audit.vulnerabilities.length;
+    const vulnSeverities = countSeverities(audit.vulnerabilities.map(vulnerability => vulnerability.severity));
+    const sbom = await phase('sbom', async () => this.sbom.generate(await checkout(), [...files, ...lockfiles]), exclusionVariant);
+    const secretScan = await phase('secrets', async context => {
+      const excluded = exclusions.excluded.map(entry => entry.path);
+      return this.secrets.scan(await checkout(), files, excluded, settings.scanSecretHistory, context);
+    }, [exclusionVariant, settings.scanSecretHistory ? historyWindow : ''].filter(part => part).join(':'));
+    // Like identity rules, the allowlist is applied after the cache so that allowlisting takes effect on the next run.
+    const allowlisted = new Set(secretAllowlist);
+    const secrets = secretScan.findings.filter(finding => !allowlisted.has(finding.fingerprint));
+    const reliability = await phase('reliability', async () =>
+      this.reliability.detect(await checkout(), files, exclusions.generated, stack), exclusionVariant);
+    const readmeScore = await phase('docs', async () => this.docs.analyzeReadme(await checkout(), files), exclusionVariant);
+
+    const blame = await phase('blame', async () => {
+      const repoPath = await checkout();
+      return { files: await this.git.getBlame(repoPath, files), mailmap: await this.identity.readMailmap(repoPath) };
+    }, [historyWindow, exclusionVariant].filter(part => part).join(':'));
+    // Identities are resolved on every run rather than cached, so edits to org alias rules apply immediately.
+    const identities: IdentityResolver = this.identity.createResolver(blame.mailmap, identityRules);
+    const ownershipData = this.ownership
+      .aggregate(this.identity.resolveBlame(blame.files, identities, settings.includeBots), settings.ownershipDepth)
+      .map(row => ({ ...row, historyWindow }));
+
+    const commits = await phase('history', async () => this.git.getCommitLog(await checkout()), historyWindow);
+    // Blamed lines per file stand in for file size; lines before a shallow cut-off are not counted.
+    const fileLines: Record<string, number> = {};
+    for (const file of blame.files) {
+      fileLines[file.path] = Object.values(file.authors).reduce((acc, lines) => acc + lines, 0);
+    }
+    const historyAnalytics = this.history.analyze(commits, identities, settings.includeBots, ownershipData, fileLines);
+    const busFactor = historyAnalytics.busFactor.find(node => node.path === '.')?.busFactor ?? null;
+    // Pull request activity changes without new commits, so it stays out of the commit cache and is fetched again by
+    // every new analysis; only a retry of this analysis reuses what it already fetched.
+    const pullRequests = await phases.run('pull-requests', repo, () => this.pullRequestActivity(provider, repository));
+
+    const metrics: AnalysisMetrics = {
+      handle: repository.fullName,
+      dominantLanguage,
+      totalLoc,
+      lintIssues,
+      lintErrors,
+      lintWarnings,
+      vulnCount,
+      vulnSeverities,
+      secretsFound: secrets.length,
+      readmeScore,
+      busFactor,
+      stars: repository.stars,
+      forks: repository.forks,
+      commitQuality: historyAnalytics.commitQuality,
+      pullRequests,
+      hasTests: reliability.tests.hasTests,
+      hasCI: reliability.ci.hasCI,
+      testRatio: reliability.tests.testRatio,
+      ciSteps: reliability.ci.steps,
+      coverage: reliability.coverage.status,
+      lineCoverage: reliability.coverage.lineCoverage,
+      branchCoverage: reliability.coverage.branchCoverage,
+      avgComplexity: complexity.avgCyclomatic,
+    };
+
+    // Metrics move without a new commit, so the summary is keyed on what it describes.
+    const summary = await phase('summary', () => this.ai.summarizeRepo(metrics), digestOf(metrics));
+
+    await phases.run('store', repo, async () => {
+      const created = await this.prisma.repo.create({
+        data: {
+          analysisId: analysisId,
+          name: repository.fullName,
+          url: repository.cloneUrl,
+          commitSha: commitSha,
+          cachedPhases: cachedPhases,
+          stars: repository.stars,
+          forks: repository.forks,
+          language: dominantLanguage,
+          loc: totalLoc,
+          languages: toJson(inventory.languages),
+          fileMap: toJson({ directories: inventory.directories, files: inventory.files }),
+          stack: toJson(stack),
+          lintIssues: lintIssues,
+          lintErrors: lintErrors,
+          lintWarnings: lintWarnings,
+          analyzers: toJson(lint.analyzers),
+          complexity: complexity.avgCyclomatic,
+          complexityReport: toJson(complexity),
+          vulnCount: vulnCount,
+          sbom: toJson(sbom),
+          secretsFound: secrets.length,
+          readmeScore: readmeScore,
+          busFactor: busFactor,
+          hasTests: reliability.tests.hasTests,
+          hasCI: reliability.ci.hasCI,
+          lineCoverage: reliability.coverage.lineCoverage,
+          branchCoverage: reliability.coverage.branchCoverage,
+          reliability: toJson(reliability),
+          history: toJson(historyAnalytics),
+          excludedPaths: toJson(exclusions.excluded),
+          summary: summary,
+          ownership: {
+            create: ownershipData,
+          },
+          findings: {
+            createMany: { data: lint.findings },
+          },
+          secrets: {
+            createMany: { data: secrets },
+          },
+          vulnerabilities: {
+            createMany: { data: audit.vulnerabilities },
+          },
+        },
+      });
+      return created.id;
+    });
+
+    const fullyCached = cachedPhases.length === Object.keys(ANALYZER_VERSIONS).length;
+    return { metrics, commitSha, fullyCached };
+  }
+
+  private async pullRequestActivity(provider: GitProvider, repository: RemoteRepository): Promise<PullRequestActivity | null> {
+    if (!provider.getPullRequestActivity) {
+      return null;
+    }
+    try {
+      return await provider.getPullRequestActivity(repository.fullName);
+    } catch (error) {
+      // Missing scopes or rate limits only cost the review signal, not the analysis.
+      console.warn(`Could not read pull requests for ${repository.fullName}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  // Rolls per-repository metrics up into one set for the project-level summary and score.
+  private aggregateMetrics(handle: string, repoMetrics: AnalysisMetrics[]): AnalysisMetrics {
+    const locByLanguage = new Map<string, number>();
+    for (const metrics of repoMetrics) {
+      locByLanguage.set(metrics.dominantLanguage, (locByLanguage.get(metrics.dominantLanguage) || 0) + metrics.totalLoc);
+    }
+    const [dominantLanguage] = Array.from(locByLanguage.entries()).sort((a, b) => b[1] - a[1])[0];
+
+    const busFactors = repoMetrics.map(m => m.busFactor).filter((value): value is number => value !== null);
+    const qualities = repoMetrics.map(m => m.commitQuality).filter((value): value is CommitQuality => value !== null);
+    const activities = repoMetrics.map(m => m.pullRequests).filter((value): value is PullRequestActivity => value !== null);
+    // A project counts as tested (or built in CI) when those repositories hold at least half of its code.
+    const totalLoc = repoMetrics.reduce((acc, m) => acc + m.totalLoc, 0);
+    const coversCode = (pick: (m: AnalysisMetrics) => boolean) =>
+      repoMetrics.some(pick) && repoMetrics.filter(pick).reduce((acc, m) => acc + m.totalLoc, 0) * 2 >= totalLoc;
+    const ciSteps = new Set(repoMetrics.flatMap(m => m.ciSteps));
+    const covered = repoMetrics.filter(m => m.lineCoverage !== null);
+    const branchCovered = repoMetrics.filter(m => m.branchCoverage !== null);
+    const measuredComplexity = repoMetrics.filter(m => m.avgComplexity !== null);
+
+    return {
+      handle,
+      dominantLanguage,
+      totalLoc,
+      lintIssues: repoMetrics.every(m => m.lintIssues < 0) ? -1 : repoMetrics.reduce((acc, m) => acc + Math.max(m.lintIssues, 0), 0),
+      lintErrors: repoMetrics.reduce((acc, m) => acc + m.lintErrors, 0),
+      lintWarnings: repoMetrics.reduce((acc, m) => acc + m.lintWarnings, 0),
+      vulnCount: repoMetrics.every(m => m.vulnCount < 0) ? -1 : repoMetrics.reduce((acc, m) => acc + Math.max(m.vulnCount, 0), 0),
+      vulnSeverities: Object.fromEntries(VULNERABILITY_SEVERITIES.map(severity =>
+        [severity, repoMetrics.reduce((acc, m) => acc + m.vulnSeverities[severity], 0)])) as Record<VulnerabilitySeverity, number>,
+      secretsFound: repoMetrics.reduce((acc, m) => acc + m.secretsFound, 0),
+      readmeScore: Math.round(repoMetrics.reduce((acc, m) => acc + m.readmeScore, 0) / repoMetrics.length),
+      busFactor: busFactors.length > 0 ? Math.round(busFactors.reduce((acc, b) => acc + b, 0) / busFactors.length) : null,
+      stars: repoMetrics.reduce((acc, m) => acc + m.stars, 0),
+      forks: repoMetrics.reduce((acc, m) => acc + m.forks, 0),
+      commitQuality: qualities.length > 0 ? mergeCommitQuality(qualities) : null,
+      pullRequests: activities.length > 0 ? mergePullRequestActivity(activities) : null,
+      hasTests: coversCode(m => m.hasTests),
+      hasCI: coversCode(m => m.hasCI),
+      testRatio: Math.round((repoMetrics.reduce((acc, m) => acc + m.testRatio, 0) / repoMetrics.length) * 1000) / 1000,
+      ciSteps: (['lint', 'test', 'build'] as CiStep[]).filter(step => ciSteps.has(step)),
+      coverage: (['measured', 'badge'] as CoverageStatus[]).find(status => repoMetrics.some(m => m.coverage === status)) || 'unknown',
+      lineCoverage: covered.length > 0 ? weightedByLoc(covered, m => m.lineCoverage!) : null,
+      branchCoverage: branchCovered.length > 0 ? weightedByLoc(branchCovered, m => m.branchCoverage!) : null,
+      avgComplexity: measuredComplexity.length > 0 ? weightedByLoc(measuredComplexity, m => m.avgComplexity!) : null,
+    };
+  }
+}
+
+// A short, stable key for a JSON-serializable value.
+function digestOf(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 16);
+}
+
+function countSeverities(severities: VulnerabilitySeverity[]): Record<VulnerabilitySeverity, number> {
+  return Object.fromEntries(VULNERABILITY_SEVERITIES.map(severity =>
+    [severity, severities.filter(entry => entry === severity).length])) as Record<VulnerabilitySeverity, number>;
+}
+
+// Coverage and complexity are weighted by lines of code, so a small helper repo does not dominate.
+function weightedByLoc(repoMetrics: AnalysisMetrics[], pick: (m: AnalysisMetrics) => number): number {
+  const loc = repoMetrics.reduce((acc, m) => acc + m.totalLoc, 0);
+  if (loc === 0) {
+    return Math.round((repoMetrics.reduce((acc, m) => acc + pick(m), 0) / repoMetrics.length) * 10) / 10;
+  }
+  return Math.round((repoMetrics.reduce((acc, m) => acc + pick(m) * m.totalLoc, 0) / loc) * 10) / 10;
+}
+
+// Ratios and averages are weighted by each repository's commit count.
+function mergeCommitQuality(qualities: CommitQuality[]): CommitQuality {
+  const commits = qualities.reduce((acc, q) => acc + q.commits, 0);
+  const weighted = (pick: (q: CommitQuality) => number) =>
+    Math.round((qualities.reduce((acc, q) => acc + pick(q) * q.commits, 0) / commits) * 1000) / 1000;
+  return {
+    commits,
+    conventionalRate: weighted(q => q.conventionalRate),
+    avgMessageLength: Math.round(weighted(q => q.avgMessageLength)),
+    fixupRatio: weighted(q => q.fixupRatio),
+    wipRatio: weighted(q => q.wipRatio),
+  };
+}
+
+function mergePullRequestActivity(activities: PullRequestActivity[]): PullRequestActivity {
+  const sampled = activities.reduce((acc, a) => acc + a.sampled, 0);
+  return {
+    merged: activities.reduce((acc, a) => acc + a.merged, 0),
+    sampled,
+    reviews: activities.reduce((acc, a) => acc + a.reviews, 0),
+    reviewComments: activities.reduce((acc, a) => acc + a.reviewComments, 0),
+    comments: activities.reduce((acc, a) => acc + a.comments, 0),
+    avgDescriptionLength: sampled > 0
+      ? Math.round(activities.reduce((acc, a) => acc + a.avgDescriptionLength * a.sampled, 0) / sampled)
+      : 0,
+  };
 }
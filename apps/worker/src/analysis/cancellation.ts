@@ -0,0 +1,41 @@
+import { PrismaService } from '../prisma/prisma.service';
+
+const POLL_INTERVAL_MS = 5000;
+
+export interface CancellationWatch {
+  signal: AbortSignal;
+  // Polls right away instead of waiting for the next interval; resolves to whether the analysis is cancelled.
+  check(): Promise<boolean>;
+  stop(): void;
+}
+
+/**
+ * Polls the analysis row and aborts the returned signal once the API has
+ * marked it cancelled. Call `stop` when the job finishes either way.
+ */
+export function watchForCancellation(prisma: PrismaService, analysisId: string): CancellationWatch {
+  const controller = new AbortController();
+  const check = async () => {
+    if (controller.signal.aborted) {
+      return true;
+    }
+    try {
+      const analysis = await prisma.analysis.findUnique({ where: { id: analysisId }, select: { status: true } });
+      if (analysis?.status === 'cancelled') {
+        console.log(`Analysis ${analysisId} was cancelled.`);
+        controller.abort();
+        clearInterval(timer);
+      }
+    } catch (error) {
+      console.warn(`Could not check analysis ${analysisId} for cancellation:`, error);
+    }
+    return controller.signal.aborted;
+  };
+  const timer = setInterval(check, POLL_INTERVAL_MS);
+
+  return {
+    signal: controller.signal,
+    check,
+    stop: () => clearInterval(timer),
+  };
+}
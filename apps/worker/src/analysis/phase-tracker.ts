@@ -0,0 +1,102 @@
+import { AnalysisPhaseState } from 'types';
+import { CacheKey } from '../cache/cache.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { toJson } from '../prisma/json';
+import { ToolContext } from '../tools/tool-runner.service';
+
+/**
+ * Runs the named steps of one analysis and records their status, timing,
+ * error and output on `Analysis.phases`. A phase that already completed in an
+ * earlier attempt is not run again: its stored artifact is returned instead,
+ * which is what lets a retried job resume at the phase that failed.
+ * Phases whose output goes to the analysis cache pass its key, and only the
+ * key is recorded; on resume they run again and read the output back from
+ * the cache. That keeps `Analysis.phases`, which is rewritten on every
+ * phase change, small however large blame or inventory output gets.
+ * Each phase gets a tool context so the external tools it spawns are
+ * cancelled with the analysis and their results are kept with the phase.
+ */
+export class PhaseTracker {
+  private phases: AnalysisPhaseState[];
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly analysisId: string,
+    phases: unknown,
+    private readonly redact: (message: string) => string = message => message,
+    readonly signal?: AbortSignal,
+  ) {
+    this.phases = Array.isArray(phases) ? (phases as AnalysisPhaseState[]) : [];
+  }
+
+  async run<T>(
+    name: string,
+    repo: string | null,
+    execute: (context: ToolContext) => Promise<T>,
+    cacheKey?: CacheKey,
+  ): Promise<T> {
+    const previous = this.find(name, repo);
+    if (previous?.status === 'complete' && !previous.cacheKey) {
+      console.log(`Resuming: phase ${this.label(name, repo)} already complete.`);
+      return previous.artifact as T;
+    }
+    if (previous?.status === 'complete') {
+      console.log(`Resuming: phase ${this.label(name, repo)} already complete, reading its output from the cache.`);
+    }
+    if (this.signal?.aborted) {
+      throw new Error(`Analysis was cancelled before phase ${this.label(name, repo)}.`);
+    }
+
+    const started = new Date();
+    const state: AnalysisPhaseState = {
+      name,
+      repo,
+      status: 'running',
+      startedAt: started.toISOString(),
+      finishedAt: null,
+      durationMs: null,
+      error: null,
+      artifact: null,
+      cacheKey: cacheKey ? { ...cacheKey, variant: cacheKey.variant || '' } : null,
+      tools: [],
+    };
+    await this.save(state);
+
+    const context: ToolContext = { signal: this.signal, runs: state.tools };
+    try {
+      const artifact = await execute(context);
+      await this.save({ ...state, ...this.finish(started), status: 'complete', artifact: cacheKey ? null : artifact });
+      return artifact;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.save({ ...state, ...this.finish(started), status: 'failed', error: this.redact(message) });
+      throw error;
+    }
+  }
+
+  private find(name: string, repo: string | null): AnalysisPhaseState | undefined {
+    return this.phases.find(phase => phase.name === name && phase.repo === repo);
+  }
+
+  private finish(started: Date) {
+    const finished = new Date();
+    return { finishedAt: finished.toISOString(), durationMs: finished.getTime() - started.getTime() };
+  }
+
+  private async save(state: AnalysisPhaseState): Promise<void> {
+    const index = this.phases.findIndex(phase => phase.name === state.name && phase.repo === state.repo);
+    if (index === -1) {
+      this.phases.push(state);
+    } else {
+      this.phases[index] = state;
+    }
+    await this.prisma.analysis.update({
+      where: { id: this.analysisId },
+      data: { phases: toJson(this.phases) },
+    });
+  }
+
+  private label(name: string, repo: string | null): string {
+    return repo ? `${repo}/${name}` : name;
+  }
+}
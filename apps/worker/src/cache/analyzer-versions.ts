@@ -0,0 +1,18 @@
+// Bump a phase's version whenever its output changes shape or meaning; older cache entries are then ignored.
+export const ANALYZER_VERSIONS = {
+  exclusions: 2,
+  inventory: 3,
+  stack: 2,
+  lint: 7,
+  complexity: 1,
+  audit: 5,
+  sbom: 1,
+  secrets: 2,
+  reliability: 2,
+  docs: 2,
+  blame: 5,
+  history: 1,
+  summary: 1,
+} as const;
+
+export type AnalyzerPhase = keyof typeof ANALYZER_VERSIONS;
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { CacheService } from './cache.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [CacheService],
+  exports: [CacheService],
+})
+export class CacheModule {}
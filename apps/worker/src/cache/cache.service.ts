@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { toJson } from '../prisma/json';
+import { ANALYZER_VERSIONS, AnalyzerPhase } from './analyzer-versions';
+
+export interface CacheKey {
+  repoUrl: string;
+  commitSha: string;
+  phase: AnalyzerPhase;
+  // Distinguishes outputs of the same phase computed with different settings, e.g. blame history windows.
+  variant?: string;
+}
+
+export interface CacheResult<T> {
+  value: T;
+  hit: boolean;
+}
+
+@Injectable()
+export class CacheService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Returns the cached output for a phase at a commit, or runs the phase and
+   * stores its output. Values must survive a JSON round trip.
+   */
+  async remember<T>(key: CacheKey, compute: () => Promise<T>): Promise<CacheResult<T>> {
+    const where = {
+      repoUrl: key.repoUrl,
+      commitSha: key.commitSha,
+      phase: key.phase,
+      variant: key.variant || '',
+      analyzerVersion: ANALYZER_VERSIONS[key.phase],
+    };
+
+    const cached = await this.prisma.analysisCache.findUnique({
+      where: { repoUrl_commitSha_phase_variant_analyzerVersion: where },
+    });
+    if (cached) {
+      console.log(`Reusing cached ${key.phase} output for ${key.commitSha.slice(0, 7)}.`);
+      return { value: cached.payload as T, hit: true };
+    }
+
+    const value = await compute();
+    await this.prisma.analysisCache.upsert({
+      where: { repoUrl_commitSha_phase_variant_analyzerVersion: where },
+      create: { ...where, payload: toJson(value) },
+      update: { payload: toJson(value) },
+    });
+    return { value, hit: false };
+  }
+}
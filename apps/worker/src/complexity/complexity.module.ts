@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ToolsModule } from '../tools/tools.module';
+import { ComplexityService } from './complexity.service';
+
+@Module({
+  imports: [ToolsModule],
+  providers: [ComplexityService],
+  exports: [ComplexityService],
+})
+export class ComplexityModule {}
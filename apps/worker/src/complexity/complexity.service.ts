@@ -0,0 +1,109 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ComplexityReport, FileComplexity, FunctionComplexity } from 'types';
+import { ensureCompleted, ToolContext, ToolNotFoundError, ToolRunner } from '../tools/tool-runner.service';
+import { analyzeTypeScript } from './typescript-complexity';
+import { PYTHON_COMPLEXITY_SCRIPT } from './python-complexity';
+
+const SCRIPT_FILE = /\.([cm]?[jt]s|[jt]sx)$/;
+const PYTHON_FILE = /\.py$/;
+// Larger sources are almost always bundled or generated code that slipped past the exclusions.
+const MAX_FILE_BYTES = 1024 * 1024;
+// Keeps each python3 invocation's argv well below the OS limit.
+const PYTHON_BATCH_SIZE = 200;
+const TOP_FUNCTIONS = 50;
+
+@Injectable()
+export class ComplexityService {
+  constructor(private readonly tools: ToolRunner) {}
+
+  /**
+   * Per-function cyclomatic and cognitive complexity: TS/JS through the
+   * TypeScript compiler API in-process, Python through a standard-library
+   * script run with python3. Python files are skipped when python3 is missing.
+   */
+  async analyze(repoPath: string, files: string[], context?: ToolContext): Promise<ComplexityReport> {
+    const functions: FunctionComplexity[] = [];
+
+    for (const file of files.filter(file => SCRIPT_FILE.test(file) && !file.endsWith('.d.ts'))) {
+      const content = await readSource(repoPath, file);
+      if (content !== null) {
+        functions.push(...analyzeTypeScript(file, content));
+      }
+    }
+
+    const pythonFiles = files.filter(file => PYTHON_FILE.test(file));
+    if (pythonFiles.length > 0) {
+      functions.push(...(await this.analyzePython(repoPath, pythonFiles, context)));
+    }
+
+    const report = buildReport(functions);
+    console.log(`Complexity: ${report.functions} functions, average cyclomatic ${report.avgCyclomatic ?? 'n/a'}`);
+    return report;
+  }
+
+  private async analyzePython(repoPath: string, files: string[], context?: ToolContext): Promise<FunctionComplexity[]> {
+    const functions: FunctionComplexity[] = [];
+    try {
+      for (let start = 0; start < files.length; start += PYTHON_BATCH_SIZE) {
+        const batch = files.slice(start, start + PYTHON_BATCH_SIZE);
+        const { stdout } = ensureCompleted(
+          await this.tools.run('python3', ['-c', PYTHON_COMPLEXITY_SCRIPT, ...batch], { cwd: repoPath, context }),
+        );
+        functions.push(...(JSON.parse(stdout) as FunctionComplexity[]));
+      }
+    } catch (error) {
+      if (error instanceof ToolNotFoundError) {
+        console.warn('python3 is not installed; skipping Python complexity.');
+        return [];
+      }
+      throw error;
+    }
+    return functions;
+  }
+}
+
+function buildReport(functions: FunctionComplexity[]): ComplexityReport {
+  const byFile = new Map<string, FunctionComplexity[]>();
+  for (const entry of functions) {
+    byFile.set(entry.path, [...(byFile.get(entry.path) || []), entry]);
+  }
+
+  const files: FileComplexity[] = Array.from(byFile.entries())
+    .map(([file, entries]) => ({
+      path: file,
+      functions: entries.length,
+      avgCyclomatic: average(entries.map(entry => entry.cyclomatic))!,
+      maxCyclomatic: Math.max(...entries.map(entry => entry.cyclomatic)),
+      avgCognitive: average(entries.map(entry => entry.cognitive))!,
+      maxCognitive: Math.max(...entries.map(entry => entry.cognitive)),
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    functions: functions.length,
+    avgCyclomatic: average(functions.map(entry => entry.cyclomatic)),
+    avgCognitive: average(functions.map(entry => entry.cognitive)),
+    files,
+    topFunctions: [...functions]
+      .sort((a, b) => b.cognitive - a.cognitive || b.cyclomatic - a.cyclomatic)
+      .slice(0, TOP_FUNCTIONS),
+  };
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round((values.reduce((acc, value) => acc + value, 0) / values.length) * 100) / 100 : null;
+}
+
+async function readSource(repoPath: string, file: string): Promise<string | null> {
+  try {
+    const fullPath = path.join(repoPath, file);
+    if ((await fs.stat(fullPath)).size > MAX_FILE_BYTES) {
+      return null;
+    }
+    return await fs.readFile(fullPath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
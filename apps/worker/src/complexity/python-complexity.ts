@@ -0,0 +1,88 @@
+/**
+ * Python counterpart of typescript-complexity.ts, run with `python3 -c` so it
+ * needs nothing beyond the standard library's `ast`. Takes file paths as
+ * arguments and prints one JSON array of FunctionComplexity records; files
+ * that do not parse are reported on stderr and skipped.
+ */
+export const PYTHON_COMPLEXITY_SCRIPT = `
+import ast, json, sys
+
+FUNCTIONS = (ast.FunctionDef, ast.AsyncFunctionDef, ast.Lambda)
+BRANCHES = (ast.If, ast.IfExp, ast.For, ast.AsyncFor, ast.While, ast.ExceptHandler)
+MATCH_CASE = getattr(ast, 'match_case', ())
+MATCH = getattr(ast, 'Match', ())
+
+def children(node):
+    return [child for child in ast.iter_child_nodes(node) if not isinstance(child, FUNCTIONS)]
+
+def cyclomatic(node):
+    count = 0
+    for child in children(node):
+        if isinstance(child, BRANCHES):
+            count += 1
+        elif isinstance(child, ast.BoolOp):
+            count += len(child.values) - 1
+        elif isinstance(child, ast.comprehension):
+            count += 1 + len(child.ifs)
+        elif MATCH_CASE and isinstance(child, MATCH_CASE):
+            count += 1
+        count += cyclomatic(child)
+    return count
+
+def cognitive(nodes, level):
+    total = 0
+    for child in nodes:
+        if isinstance(child, FUNCTIONS):
+            continue
+        if isinstance(child, ast.If):
+            total += 1 + level + cognitive_if(child, level)
+        elif isinstance(child, BRANCHES) or (MATCH and isinstance(child, MATCH)):
+            total += 1 + level + cognitive(children(child), level + 1)
+        else:
+            if isinstance(child, ast.BoolOp):
+                total += 1
+            total += cognitive(children(child), level)
+    return total
+
+# elif and else cost one without a nesting penalty; their bodies nest one level.
+def cognitive_if(node, level):
+    total = cognitive([node.test], level) + cognitive(node.body, level + 1)
+    if not node.orelse:
+        return total
+    total += 1
+    if len(node.orelse) == 1 and isinstance(node.orelse[0], ast.If) and node.orelse[0].col_offset == node.col_offset:
+        return total + cognitive_if(node.orelse[0], level)
+    return total + cognitive(node.orelse, level + 1)
+
+def analyze(path):
+    with open(path, encoding='utf-8', errors='replace') as handle:
+        tree = ast.parse(handle.read(), filename=path)
+    results = []
+    def visit(node, owner):
+        for child in ast.iter_child_nodes(node):
+            if isinstance(child, FUNCTIONS):
+                name = getattr(child, 'name', '<lambda>')
+                results.append({
+                    'path': path,
+                    'name': owner + '.' + name if owner else name,
+                    'line': child.lineno,
+                    'endLine': getattr(child, 'end_lineno', None) or child.lineno,
+                    'cyclomatic': 1 + cyclomatic(child),
+                    'cognitive': cognitive(children(child), 0),
+                })
+                visit(child, None)
+            elif isinstance(child, ast.ClassDef):
+                visit(child, child.name)
+            else:
+                visit(child, owner)
+    visit(tree, None)
+    return results
+
+functions = []
+for path in sys.argv[1:]:
+    try:
+        functions.extend(analyze(path))
+    except (SyntaxError, ValueError, OSError) as error:
+        print(path + ': ' + str(error), file=sys.stderr)
+print(json.dumps(functions))
+`;
@@ -0,0 +1,197 @@
+import * as ts from 'typescript';
+import { FunctionComplexity } from 'types';
+
+type FunctionLike =
+  | ts.FunctionDeclaration
+  | ts.FunctionExpression
+  | ts.ArrowFunction
+  | ts.MethodDeclaration
+  | ts.ConstructorDeclaration
+  | ts.GetAccessorDeclaration
+  | ts.SetAccessorDeclaration;
+
+const LOGICAL_OPERATORS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+]);
+
+const LOGICAL_ASSIGNMENTS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken,
+]);
+
+/**
+ * Cyclomatic and cognitive complexity for every function in a TS/JS file,
+ * from the syntax tree alone (no type checking). Nested functions are
+ * reported on their own and do not add to the function that contains them.
+ */
+export function analyzeTypeScript(file: string, content: string): FunctionComplexity[] {
+  const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, scriptKind(file));
+  const results: FunctionComplexity[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (isFunctionLike(node) && node.body) {
+      results.push({
+        path: file,
+        name: functionName(node),
+        line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+        endLine: sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+        cyclomatic: 1 + cyclomatic(node.body),
+        cognitive: cognitive(node.body, 0),
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return results;
+}
+
+// Decision points, as ESLint's `complexity` rule counts them.
+function cyclomatic(node: ts.Node): number {
+  let count = 0;
+  const visit = (child: ts.Node) => {
+    if (isFunctionLike(child)) {
+      return;
+    }
+    switch (child.kind) {
+      case ts.SyntaxKind.IfStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CatchClause:
+      case ts.SyntaxKind.CaseClause:
+        count++;
+        break;
+      case ts.SyntaxKind.BinaryExpression: {
+        const operator = (child as ts.BinaryExpression).operatorToken.kind;
+        if (LOGICAL_OPERATORS.has(operator) || LOGICAL_ASSIGNMENTS.has(operator)) {
+          count++;
+        }
+        break;
+      }
+    }
+    ts.forEachChild(child, visit);
+  };
+  ts.forEachChild(node, visit);
+  return count;
+}
+
+// Cognitive complexity after SonarSource's definition: flow breaks cost one more per level of nesting.
+function cognitive(node: ts.Node, nesting: number): number {
+  let total = 0;
+  const visit = (child: ts.Node, level: number) => {
+    if (isFunctionLike(child)) {
+      return;
+    }
+    if (ts.isIfStatement(child)) {
+      total += 1 + level;
+      visitIf(child, level);
+      return;
+    }
+    switch (child.kind) {
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.SwitchStatement:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CatchClause:
+        total += 1 + level;
+        ts.forEachChild(child, grandchild => visit(grandchild, level + 1));
+        return;
+      case ts.SyntaxKind.BreakStatement:
+      case ts.SyntaxKind.ContinueStatement:
+        if ((child as ts.BreakOrContinueStatement).label) {
+          total++;
+        }
+        break;
+      case ts.SyntaxKind.BinaryExpression:
+        if (isLogical(child) && !isLogical(child.parent)) {
+          total += logicalSequences(child as ts.BinaryExpression);
+        }
+        break;
+    }
+    ts.forEachChild(child, grandchild => visit(grandchild, level));
+  };
+
+  // `else if` and `else` each cost one, without a nesting penalty, and nest their bodies one level.
+  const visitIf = (statement: ts.IfStatement, level: number) => {
+    visit(statement.expression, level);
+    visit(statement.thenStatement, level + 1);
+    const otherwise = statement.elseStatement;
+    if (!otherwise) {
+      return;
+    }
+    total++;
+    if (ts.isIfStatement(otherwise)) {
+      visitIf(otherwise, level);
+    } else {
+      visit(otherwise, level + 1);
+    }
+  };
+
+  ts.forEachChild(node, child => visit(child, nesting));
+  return total;
+}
+
+// `a && b && c || d` costs two: one per run of the same operator.
+function logicalSequences(expression: ts.BinaryExpression): number {
+  const operators: ts.SyntaxKind[] = [];
+  const flatten = (node: ts.Expression) => {
+    if (isLogical(node)) {
+      const binary = node as ts.BinaryExpression;
+      flatten(binary.left);
+      operators.push(binary.operatorToken.kind);
+      flatten(binary.right);
+    }
+  };
+  flatten(expression);
+  return operators.filter((operator, index) => index === 0 || operator !== operators[index - 1]).length;
+}
+
+function isLogical(node: ts.Node): boolean {
+  return ts.isBinaryExpression(node) && LOGICAL_OPERATORS.has(node.operatorToken.kind);
+}
+
+function isFunctionLike(node: ts.Node): node is FunctionLike {
+  return ts.isFunctionDeclaration(node)
+    || ts.isFunctionExpression(node)
+    || ts.isArrowFunction(node)
+    || ts.isMethodDeclaration(node)
+    || ts.isConstructorDeclaration(node)
+    || ts.isGetAccessorDeclaration(node)
+    || ts.isSetAccessorDeclaration(node);
+}
+
+// The declared name, or the variable or property an anonymous function is assigned to; methods get their class.
+function functionName(node: FunctionLike): string {
+  let name = '<anonymous>';
+  if (ts.isConstructorDeclaration(node)) {
+    name = 'constructor';
+  } else if (node.name) {
+    name = node.name.getText();
+  } else if (ts.isVariableDeclaration(node.parent) || ts.isPropertyAssignment(node.parent) || ts.isPropertyDeclaration(node.parent)) {
+    name = node.parent.name.getText();
+  }
+
+  const owner = ts.isClassLike(node.parent) ? node.parent
+    : ts.isPropertyDeclaration(node.parent) && ts.isClassLike(node.parent.parent) ? node.parent.parent
+    : null;
+  return owner?.name ? `${owner.name.getText()}.${name}` : name;
+}
+
+function scriptKind(file: string): ts.ScriptKind {
+  if (file.endsWith('.tsx')) {
+    return ts.ScriptKind.TSX;
+  }
+  if (file.endsWith('.jsx')) {
+    return ts.ScriptKind.JSX;
+  }
+  return /\.[cm]?ts$/.test(file) ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+}
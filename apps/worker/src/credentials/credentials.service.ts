@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { CredentialCipher } from 'credentials';
+import { PrismaService } from '../prisma/prisma.service';
+
+export interface CredentialTarget {
+  orgId: string;
+  provider: string;
+  host?: string | null;
+}
+
+@Injectable()
+export class CredentialsService {
+  private cipher: CredentialCipher | null = null;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Decrypts the newest active credential an org holds for the project's
+   * provider and host. The plaintext is only meant to live for one job:
+   * callers pass it down and never persist or log it.
+   */
+  async resolveToken(target: CredentialTarget): Promise<string | null> {
+    const credential = await this.prisma.orgCredential.findFirst({
+      where: {
+        orgId: target.orgId,
+        provider: target.provider,
+        host: target.host || null,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!credential) {
+      return null;
+    }
+
+    console.log(`Using ${credential.kind} credential ${credential.id} for ${target.provider}.`);
+    return this.getCipher().decrypt(credential.ciphertext);
+  }
+
+  private getCipher(): CredentialCipher {
+    if (!this.cipher) {
+      this.cipher = new CredentialCipher();
+    }
+    return this.cipher;
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { resolveProjectSettings } from 'types';
+import { GitProvider, RemoteRepository } from '../providers/git-provider.interface';
+
+export interface DiscoverableProject {
+  handle: string;
+  type: string;
+  settings?: unknown;
+}
+
+@Injectable()
+export class DiscoveryService {
+  async discover(project: DiscoverableProject, provider: GitProvider): Promise<RemoteRepository[]> {
+    // A repo project names a single repository; skip listing and filtering. Any other handle is listed, even one
+    // with a slash such as a GitLab subgroup.
+    if (project.type === 'repo') {
+      return [await provider.getRepository(project.handle)];
+    }
+
+    const settings = resolveProjectSettings(project.settings);
+    const type = project.type === 'org' ? 'org' : 'user';
+    console.log(`Discovering repositories for ${type} ${project.handle} on ${provider.kind}...`);
+
+    const repositories = await provider.listRepositories(project.handle, type);
+    const selected = repositories
+      .filter(repo => settings.includeForks || !repo.fork)
+      .filter(repo => settings.includeArchived || !repo.archived)
+      .filter(repo => repo.sizeKb <= settings.maxRepoSizeKb)
+      .sort(compareByActivity)
+      .slice(0, settings.maxRepos);
+
+    console.log(`Discovered ${repositories.length} repositories, selected ${selected.length} for analysis.`);
+    return selected;
+  }
+}
+
+// Most-starred first, most recently pushed breaks ties.
+function compareByActivity(a: RemoteRepository, b: RemoteRepository): number {
+  if (a.stars !== b.stars) {
+    return b.stars - a.stars;
+  }
+  return (b.pushedAt || '').localeCompare(a.pushedAt || '');
+}
@@ -13,9 +13,9 @@ const README_CHECKLIST = [
 
 @Injectable()
 export class DocsService {
-  async analyzeReadme(repoPath: string): Promise<number> {
+  async analyzeReadme(repoPath: string, files: string[]): Promise<number> {
     console.log('Analyzing README...');
-    const readmePath = await this.findReadme(repoPath);
+    const readmePath = this.findReadme(repoPath, files);
 
     if (!readmePath) {
       console.log('No README file found.');
@@ -37,14 +37,9 @@ export class DocsService {
     return finalScore;
   }
 
-  private async findReadme(repoPath: string): Promise<string | null> {
-    try {
-      const files = await fs.readdir(repoPath);
-      const readmeFile = files.find(file => file.toLowerCase() === 'readme.md');
-      return readmeFile ? path.join(repoPath, readmeFile) : null;
-    } catch (error) {
-      console.error('Failed to read directory for README', error);
-      return null;
-    }
+  // Only a README that survived exclusion counts; tracked files are matched case-insensitively at the root.
+  private findReadme(repoPath: string, files: string[]): string | null {
+    const readmeFile = files.find(file => file.toLowerCase() === 'readme.md');
+    return readmeFile ? path.join(repoPath, readmeFile) : null;
   }
 }
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { GitModule } from '../git/git.module';
+import { ExclusionsService } from './exclusions.service';
+
+@Module({
+  imports: [GitModule],
+  providers: [ExclusionsService],
+  exports: [ExclusionsService],
+})
+export class ExclusionsModule {}
@@ -0,0 +1,140 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { ExcludedPath, ExclusionReason } from 'types';
+import { GitService } from '../git/git.service';
+
+export const IGNORE_FILE = '.devatlasignore';
+
+// Built-in path heuristics, in gitignore syntax. Earlier groups win when several match.
+const PATH_HEURISTICS: { reason: ExclusionReason; patterns: string[] }[] = [
+  {
+    reason: 'vendored',
+    patterns: ['node_modules/', 'bower_components/', 'jspm_packages/', 'vendor/', 'third_party/', 'third-party/', 'Pods/', '.yarn/'],
+  },
+  {
+    reason: 'lockfile',
+    patterns: [
+      'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'poetry.lock', 'Pipfile.lock',
+      'Cargo.lock', 'go.sum', 'composer.lock', 'Gemfile.lock',
+    ],
+  },
+  {
+    reason: 'minified',
+    patterns: ['*.min.js', '*.min.css', '*.min.mjs', '*.bundle.js'],
+  },
+  {
+    reason: 'generated',
+    patterns: [
+      'dist/', 'build/', 'out/', 'coverage/', '.next/', '__generated__/', 'generated/',
+      '*.pb.go', '*_pb2.py', '*_pb2_grpc.py', '*_pb.js', '*_pb.d.ts', '*.pb.h', '*.pb.cc',
+      '*.generated.*', '*.g.dart', '*.Designer.cs',
+    ],
+  },
+];
+
+const GENERATED_HEADER = /@generated|code generated .*do not edit|auto-?generated|this file (is|was) (automatically )?generated/i;
+const MINIFIABLE = /\.(js|mjs|cjs|css)$/;
+const HEADER_BYTES = 8 * 1024;
+const MINIFIED_LINE_LENGTH = 1000;
+
+export interface ExclusionSet {
+  // Tracked files every phase should look at, relative to the repository root.
+  included: string[];
+  excluded: ExcludedPath[];
+  // Every file excluded as generated output, listed individually; committed coverage reports are among them.
+  generated: string[];
+}
+
+/**
+ * Decides which tracked files the analysis ignores: the repository's
+ * .devatlasignore, the org's default patterns, and heuristics for vendored,
+ * generated, minified and lock files. Every phase works from the resulting
+ * `included` list so LOC, lint, blame and docs agree on the same tree.
+ */
+@Injectable()
+export class ExclusionsService {
+  constructor(private readonly git: GitService) {}
+
+  async resolve(repoPath: string, orgPatterns: string[]): Promise<ExclusionSet> {
+    const sources: { reason: ExclusionReason; rules: Ignore }[] = [
+      { reason: 'devatlasignore', rules: ignore().add(await this.readIgnoreFile(repoPath)) },
+      { reason: 'org-pattern', rules: ignore().add(orgPatterns) },
+      ...PATH_HEURISTICS.map(({ reason, patterns }) => ({ reason, rules: ignore().add(patterns) })),
+    ];
+
+    const included: string[] = [];
+    const generated: string[] = [];
+    const excluded = new Map<string, ExcludedPath>();
+    for (const file of await this.git.listFiles(repoPath)) {
+      const source = sources.find(({ rules }) => rules.ignores(file));
+      const reason = source?.reason ?? (await this.inspectContent(repoPath, file));
+      if (!reason) {
+        included.push(file);
+        continue;
+      }
+      if (reason === 'generated') {
+        generated.push(file);
+      }
+
+      // Files under a directory excluded as a whole are reported once, under that directory.
+      const entryPath = (source && excludedDirectory(file, source.rules)) || file;
+      const entry = excluded.get(entryPath) || { path: entryPath, reason, files: 0 };
+      entry.files++;
+      excluded.set(entryPath, entry);
+    }
+
+    console.log(`Excluded ${excluded.size} paths from analysis; ${included.length} files remain.`);
+    return {
+      included,
+      excluded: Array.from(excluded.values()).sort((a, b) => a.path.localeCompare(b.path)),
+      generated,
+    };
+  }
+
+  private async readIgnoreFile(repoPath: string): Promise<string> {
+    try {
+      return await fs.readFile(path.join(repoPath, IGNORE_FILE), 'utf-8');
+    } catch {
+      return '';
+    }
+  }
+
+  // Looks at the start of a file for a "generated" banner, or for the very long lines of minified code.
+  private async inspectContent(repoPath: string, file: string): Promise<ExclusionReason | null> {
+    let head: string;
+    try {
+      const handle = await fs.open(path.join(repoPath, file), 'r');
+      try {
+        const buffer = Buffer.alloc(HEADER_BYTES);
+        const { bytesRead } = await handle.read(buffer, 0, HEADER_BYTES, 0);
+        head = buffer.subarray(0, bytesRead).toString('utf-8');
+      } finally {
+        await handle.close();
+      }
+    } catch {
+      return null;
+    }
+
+    if (GENERATED_HEADER.test(head.split('\n').slice(0, 10).join('\n'))) {
+      return 'generated';
+    }
+    if (MINIFIABLE.test(file) && head.split('\n').some(line => line.length >= MINIFIED_LINE_LENGTH)) {
+      return 'minified';
+    }
+    return null;
+  }
+}
+
+// The shortest ancestor directory of `file` the rules ignore as a whole, with a trailing slash.
+function excludedDirectory(file: string, rules: Ignore): string | null {
+  const segments = file.split('/');
+  for (let depth = 1; depth < segments.length; depth++) {
+    const directory = `${segments.slice(0, depth).join('/')}/`;
+    if (rules.ignores(directory)) {
+      return directory;
+    }
+  }
+  return null;
+}
@@ -1,6 +1,40 @@
 import { Injectable } from '@nestjs/common';
-import simpleGit, { SimpleGit, BlameResult } from 'simple-git';
+import simpleGit, { SimpleGit } from 'simple-git';
 import * as fs from 'fs/promises';
+import * as path from 'path';
+import { redactSecrets } from 'credentials';
+import { ProjectSettings } from 'types';
+
+export interface FileBlame {
+  path: string;
+  // Raw `Name <email>` identity -> number of lines they last touched in this file.
+  authors: Record<string, number>;
+}
+
+export interface CommitFileChange {
+  path: string;
+  added: number;
+  deleted: number;
+}
+
+export interface CommitRecord {
+  sha: string;
+  // Raw `Name <email>` identity, mailmap applied by git.
+  author: string;
+  authoredAt: string;
+  message: string;
+  files: CommitFileChange[];
+}
+
+export type HistoryWindow =
+  | { mode: 'full' }
+  | { mode: 'depth'; depth: number }
+  | { mode: 'since'; since: string };
+
+export interface CloneAuth {
+  username: string;
+  token: string;
+}
 
 @Injectable()
 export class GitService {
@@ -10,35 +44,169 @@ export class GitService {
     this.git = simpleGit();
   }
 
-  async clone(repoUrl: string, localPath: string): Promise<void> {
-    console.log(`Cloning ${repoUrl} into ${localPath}...`);
+  // Aborting `signal` kills the git process; WorkspaceService uses it for clone timeouts and cancellation.
+  async clone(repoUrl: string, localPath: string, history: HistoryWindow, auth?: CloneAuth, signal?: AbortSignal): Promise<void> {
+    console.log(`Cloning ${repoUrl} into ${localPath} (${describeHistoryWindow(history)})...`);
     // Ensure the directory is clean before cloning
     await fs.rm(localPath, { recursive: true, force: true });
-    await this.git.clone(repoUrl, localPath, { '--depth': 1 });
+    await this.withAuth(repoUrl, auth, git => git.clone(repoUrl, localPath, this.historyOptions(history)), signal);
     console.log('Clone successful.');
   }
 
-  async getBlameSummary(repoPath: string): Promise<Map<string, number>> {
+  // Picks the history to clone so blame attributes lines to their real authors, not just the latest committer.
+  resolveHistoryWindow(settings: ProjectSettings, sizeKb: number): HistoryWindow {
+    switch (settings.historyMode) {
+      case 'full':
+        return { mode: 'full' };
+      case 'depth':
+        return { mode: 'depth', depth: settings.historyDepth };
+      case 'since':
+        return { mode: 'since', since: settings.historySince };
+      default:
+        return sizeKb <= settings.fullHistoryMaxSizeKb
+          ? { mode: 'full' }
+          : { mode: 'since', since: settings.historySince };
+    }
+  }
+
+  private historyOptions(history: HistoryWindow): Record<string, string | number | null> {
+    switch (history.mode) {
+      case 'depth':
+        return { '--depth': history.depth, '--single-branch': null };
+      case 'since':
+        return { '--shallow-since': history.since, '--single-branch': null };
+      default:
+        return { '--single-branch': null };
+    }
+  }
+
+  // Resolves the remote HEAD commit without cloning, so unchanged repositories can be served from cache.
+  async resolveHead(repoUrl: string, auth?: CloneAuth): Promise<string> {
+    const output = await this.withAuth(repoUrl, auth, git => git.listRemote([repoUrl, 'HEAD']));
+    const sha = output.split(/\s+/)[0];
+    if (!/^[0-9a-f]{40}$/.test(sha)) {
+      throw new Error(`Could not resolve HEAD of ${repoUrl}.`);
+    }
+    return sha;
+  }
+
+  /**
+   * Runs a remote operation, sending the token as a one-off header instead of
+   * embedding it in the URL, so it never reaches .git/config, the Repo row or
+   * git's error output.
+   */
+  private async withAuth<T>(
+    repoUrl: string,
+    auth: CloneAuth | undefined,
+    run: (git: SimpleGit) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (!auth) {
+      return run(signal ? simpleGit({ abort: signal }) : this.git);
+    }
+
+    const basic = Buffer.from(`${auth.username}:${auth.token}`).toString('base64');
+    const git = simpleGit({ abort: signal, config: [`http.extraHeader=Authorization: Basic ${basic}`] });
+    try {
+      return await run(git);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Git operation on ${repoUrl} failed: ${redactSecrets(message, [auth.token, basic])}`);
+    }
+  }
+
+  // Tracked files relative to the repository root; -z keeps unusual names unquoted.
+  async listFiles(repoPath: string): Promise<string[]> {
+    const output = await simpleGit(repoPath).raw(['ls-files', '-z']);
+    return output.split('\0').filter(file => file);
+  }
+
+  async getBlame(repoPath: string, fileList: string[]): Promise<FileBlame[]> {
     console.log('Analyzing git blame...');
     const git = simpleGit(repoPath);
-    const files = await git.raw(['ls-files']);
-    const fileList = files.split('\n').filter(f => f);
+    const shallowBoundaries = await this.readShallowBoundaries(repoPath);
 
-    const blameSummary = new Map<string, number>();
+    const blame: FileBlame[] = [];
 
     for (const file of fileList) {
         try {
-            const blameResult: BlameResult = await git.blame(['--', file]);
-            for (const line of blameResult.lines) {
-                const author = line.author.trim();
-                blameSummary.set(author, (blameSummary.get(author) || 0) + 1);
+            const output = await git.raw(['blame', '--line-porcelain', '--', file]);
+            const authors: Record<string, number> = {};
+            let commit = '';
+            let author = '';
+            let mail = '';
+            for (const line of output.split('\n')) {
+                if (/^[0-9a-f]{40} \d+ \d+/.test(line)) {
+                    commit = line.slice(0, 40);
+                } else if (line.startsWith('author ')) {
+                    author = line.slice('author '.length).trim();
+                } else if (line.startsWith('author-mail ')) {
+                    mail = line.slice('author-mail '.length).trim();
+                } else if (line.startsWith('\t')) {
+                    // Lines older than a shallow clone's cut-off are pinned on the grafted boundary
+                    // commit, whose author only touched them by accident, so they stay unattributed.
+                    if (!shallowBoundaries.has(commit)) {
+                        const identity = `${author} ${mail}`;
+                        authors[identity] = (authors[identity] || 0) + 1;
+                    }
+                }
             }
+            blame.push({ path: file, authors });
         } catch (error) {
             // Ignoring errors for binary files or files that can't be blamed
             console.warn(`Could not blame file: ${file}. Skipping.`);
         }
     }
     console.log('Blame analysis complete.');
-    return blameSummary;
+    return blame;
+  }
+
+  // Non-merge commits reachable in the clone's history window, newest first, with per-file line counts.
+  async getCommitLog(repoPath: string): Promise<CommitRecord[]> {
+    console.log('Reading commit history...');
+    const output = await simpleGit(repoPath).raw([
+      'log',
+      '--no-merges',
+      '--no-renames',
+      '--numstat',
+      '--format=%x1e%H%x1f%aN <%aE>%x1f%aI%x1f%B%x1f',
+    ]);
+
+    const commits: CommitRecord[] = [];
+    for (const record of output.split('\x1e').slice(1)) {
+      const [sha, author, authoredAt, message, numstat = ''] = record.split('\x1f');
+      const files: CommitFileChange[] = [];
+      for (const line of numstat.split('\n')) {
+        const [added, deleted, file] = line.split('\t');
+        if (file) {
+          // Binary files report '-' for both counts.
+          files.push({ path: file, added: parseInt(added, 10) || 0, deleted: parseInt(deleted, 10) || 0 });
+        }
+      }
+      commits.push({ sha, author, authoredAt, message: message.trim(), files });
+    }
+
+    console.log(`Read ${commits.length} commits.`);
+    return commits;
+  }
+
+  private async readShallowBoundaries(repoPath: string): Promise<Set<string>> {
+    try {
+      const shallow = await fs.readFile(path.join(repoPath, '.git', 'shallow'), 'utf-8');
+      return new Set(shallow.split('\n').filter(sha => sha));
+    } catch {
+      return new Set();
+    }
+  }
+}
+
+export function describeHistoryWindow(history: HistoryWindow): string {
+  switch (history.mode) {
+    case 'depth':
+      return `depth=${history.depth}`;
+    case 'since':
+      return `since=${history.since}`;
+    default:
+      return 'full';
   }
 }
@@ -0,0 +1,137 @@
+import { Injectable } from '@nestjs/common';
+import { CommitQuality, FileChurn, HistoryAnalytics, Hotspot } from 'types';
+import { CommitRecord } from '../git/git.service';
+import { IdentityResolver } from '../identity/identity-resolver';
+import { OwnershipRow } from '../ownership/ownership.service';
+
+const TOP_FILES = 50;
+
+const CONVENTIONAL_SUBJECT = /^(feat|fix|docs|style|refactor|perf|test|build|ci|chore|revert)(\([^)]*\))?!?: \S/;
+const FIXUP_SUBJECT = /^(fixup|squash|amend)! /;
+const WIP_SUBJECT = /^\W*wip\b/i;
+
+@Injectable()
+export class HistoryService {
+  /**
+   * Mines the commit log for activity over time, per-file churn and
+   * hotspots, and derives a bus factor per directory from ownership.
+   * `fileLines` is the current size of each file, used to weight churn.
+   */
+  analyze(
+    commits: CommitRecord[],
+    resolver: IdentityResolver,
+    includeBots: boolean,
+    ownership: OwnershipRow[],
+    fileLines: Record<string, number>,
+  ): HistoryAnalytics {
+    const identities = resolver.resolveAll(commits.map(commit => commit.author));
+    const humanCommits = commits.filter(commit => includeBots || !identities.get(commit.author)?.isBot);
+
+    const commitsPerWeek = new Map<string, number>();
+    const contributorsPerMonth = new Map<string, Set<string>>();
+    const churn = new Map<string, FileChurn>();
+
+    for (const commit of humanCommits) {
+      const authoredAt = new Date(commit.authoredAt);
+      const week = startOfWeek(authoredAt);
+      commitsPerWeek.set(week, (commitsPerWeek.get(week) || 0) + 1);
+
+      const month = commit.authoredAt.slice(0, 7);
+      const contributors = contributorsPerMonth.get(month) || new Set<string>();
+      contributors.add(identities.get(commit.author)?.id || commit.author);
+      contributorsPerMonth.set(month, contributors);
+
+      for (const file of commit.files) {
+        const entry = churn.get(file.path) || { path: file.path, commits: 0, added: 0, deleted: 0 };
+        entry.commits++;
+        entry.added += file.added;
+        entry.deleted += file.deleted;
+        churn.set(file.path, entry);
+      }
+    }
+
+    // Only files that still exist can be hotspots.
+    const currentChurn = Array.from(churn.values()).filter(entry => fileLines[entry.path] !== undefined);
+
+    return {
+      commitCount: humanCommits.length,
+      commitsPerWeek: Array.from(commitsPerWeek.entries())
+        .map(([week, count]) => ({ week, commits: count }))
+        .sort((a, b) => a.week.localeCompare(b.week)),
+      activeContributors: Array.from(contributorsPerMonth.entries())
+        .map(([month, contributors]) => ({ month, contributors: contributors.size }))
+        .sort((a, b) => a.month.localeCompare(b.month)),
+      churn: currentChurn.sort((a, b) => b.commits - a.commits).slice(0, TOP_FILES),
+      hotspots: this.findHotspots(currentChurn, fileLines),
+      busFactor: this.busFactor(ownership),
+      commitQuality: this.commitQuality(humanCommits),
+    };
+  }
+
+  private commitQuality(commits: CommitRecord[]): CommitQuality | null {
+    if (commits.length === 0) {
+      return null;
+    }
+
+    const subjects = commits.map(commit => commit.message.split('\n')[0]);
+    const ratio = (pattern: RegExp) => round(subjects.filter(subject => pattern.test(subject)).length / commits.length);
+
+    return {
+      commits: commits.length,
+      conventionalRate: ratio(CONVENTIONAL_SUBJECT),
+      avgMessageLength: Math.round(commits.reduce((acc, commit) => acc + commit.message.length, 0) / commits.length),
+      fixupRatio: ratio(FIXUP_SUBJECT),
+      wipRatio: ratio(WIP_SUBJECT),
+    };
+  }
+
+  // Churn and size are each normalized against the repo's maximum; files that are both big and busy rank highest.
+  private findHotspots(churn: FileChurn[], fileLines: Record<string, number>): Hotspot[] {
+    const maxCommits = Math.max(1, ...churn.map(entry => entry.commits));
+    const maxLines = Math.max(1, ...churn.map(entry => fileLines[entry.path]));
+
+    return churn
+      .map(entry => {
+        const lines = fileLines[entry.path];
+        const score = (entry.commits / maxCommits) * (Math.log1p(lines) / Math.log1p(maxLines));
+        return { path: entry.path, commits: entry.commits, lines, score: round(score) };
+      })
+      .filter(hotspot => hotspot.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, TOP_FILES);
+  }
+
+  // The smallest number of people who together own at least half of each directory.
+  private busFactor(ownership: OwnershipRow[]): { path: string; busFactor: number }[] {
+    const sharesByPath = new Map<string, number[]>();
+    for (const row of ownership) {
+      sharesByPath.set(row.path, [...(sharesByPath.get(row.path) || []), row.share]);
+    }
+
+    return Array.from(sharesByPath.entries())
+      .map(([path, shares]) => {
+        let covered = 0;
+        let people = 0;
+        for (const share of shares.sort((a, b) => b - a)) {
+          covered += share;
+          people++;
+          if (covered >= 0.5) {
+            break;
+          }
+        }
+        return { path, busFactor: people };
+      })
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Monday of the UTC week, as YYYY-MM-DD.
+function startOfWeek(date: Date): string {
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
@@ -0,0 +1,179 @@
+import { IdentityRules } from 'types';
+import { applyMailmap, MailmapEntry } from './mailmap';
+
+export interface ResolvedIdentity {
+  // Stable key for the person: the group's first raw identity in sort order. Names are for display only.
+  id: string;
+  name: string;
+  email: string | null;
+  isBot: boolean;
+}
+
+const DEFAULT_BOT_PATTERNS = [
+  /\[bot\]/i,
+  /^dependabot/i,
+  /^renovate/i,
+  /github-actions/i,
+  /^greenkeeper/i,
+  /^snyk-bot/i,
+  /^semantic-release-bot/i,
+  /^allcontributors/i,
+  /^pre-commit-ci/i,
+  /^mergify/i,
+  /^(41898282|49699333)\+/, // github-actions and dependabot noreply addresses
+];
+
+// Shared addresses that say nothing about who the author is.
+const ANONYMOUS_EMAILS = new Set(['', 'noreply@github.com', 'not.committed.yet', 'unknown']);
+
+interface Candidate {
+  raw: string;
+  name: string;
+  email: string;
+  alias: string | null;
+  aliasEmail: string | null;
+}
+
+/**
+ * Maps raw `Name <email>` strings from blame or log output onto people.
+ * Identities are merged when they share an email. One without a usable
+ * email joins the single address whose local part equals its one-word name
+ * (`jdoe` and `jdoe@corp.com`) or that is used under its name; when several
+ * match, it stays on its own. Two different addresses are only merged by
+ * .mailmap and org alias rules, which are applied first, never by a shared
+ * name, and bots are only ever merged with bots.
+ */
+export class IdentityResolver {
+  constructor(
+    private readonly mailmap: MailmapEntry[],
+    private readonly rules: IdentityRules,
+  ) {}
+
+  resolveAll(rawIdentities: string[]): Map<string, ResolvedIdentity> {
+    const candidates = Array.from(new Set(rawIdentities)).map(raw => this.toCandidate(raw));
+    const parent = new Map<string, string>();
+    const find = (key: string): string => {
+      const next = parent.get(key);
+      if (!next || next === key) {
+        parent.set(key, key);
+        return key;
+      }
+      const root = find(next);
+      parent.set(key, root);
+      return root;
+    };
+    const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+    // Merge keys are kept apart for bots and humans, so no rule can join the two.
+    const kind = (candidate: Candidate) => (this.isBot(candidate) ? 'bot' : 'human');
+    const emailsByLocal = new Map<string, Set<string>>();
+    const emailsByName = new Map<string, Set<string>>();
+    for (const candidate of candidates) {
+      const email = usableEmail(candidate);
+      if (email) {
+        addTo(emailsByLocal, `${kind(candidate)}:${email.split('@')[0]}`, email);
+        addTo(emailsByName, `${kind(candidate)}:${normalizeName(candidate.name)}`, email);
+      }
+    }
+    const onlyMatch = (matches: Set<string> | undefined) => (matches?.size === 1 ? Array.from(matches)[0] : null);
+
+    for (const candidate of candidates) {
+      const self = `raw:${candidate.raw}`;
+      const prefix = kind(candidate);
+      find(self);
+      if (candidate.alias) {
+        union(self, `${prefix}:alias:${normalizeName(candidate.alias)}`);
+      }
+      const email = usableEmail(candidate);
+      const name = normalizeName(candidate.name);
+      if (email) {
+        union(self, `${prefix}:email:${email}`);
+      } else if (name) {
+        const match =
+          (name.includes(' ') ? null : onlyMatch(emailsByLocal.get(`${prefix}:${name}`))) ||
+          onlyMatch(emailsByName.get(`${prefix}:${name}`));
+        if (match) {
+          union(self, `${prefix}:email:${match}`);
+        }
+      }
+    }
+
+    const groups = new Map<string, Candidate[]>();
+    for (const candidate of candidates) {
+      const root = find(`raw:${candidate.raw}`);
+      groups.set(root, [...(groups.get(root) || []), candidate]);
+    }
+
+    const resolved = new Map<string, ResolvedIdentity>();
+    for (const members of groups.values()) {
+      const identity = this.describe(members);
+      for (const member of members) {
+        resolved.set(member.raw, identity);
+      }
+    }
+    return resolved;
+  }
+
+  private toCandidate(raw: string): Candidate {
+    const match = /^(.*?)\s*<([^>]*)>\s*$/.exec(raw);
+    const mapped = applyMailmap(this.mailmap, match ? match[1].trim() : raw.trim(), match ? match[2].trim() : '');
+    const rule = this.rules.aliases.find(alias =>
+      alias.match.some(value => {
+        const lower = value.toLowerCase();
+        return lower === mapped.name.toLowerCase() || (mapped.email !== '' && lower === mapped.email.toLowerCase());
+      }),
+    );
+    return {
+      raw,
+      name: mapped.name,
+      email: mapped.email,
+      alias: rule ? rule.canonical : null,
+      aliasEmail: rule?.email || null,
+    };
+  }
+
+  // Alias names win; otherwise the fullest human-looking name in the group is shown.
+  private describe(members: Candidate[]): ResolvedIdentity {
+    const aliased = members.find(member => member.alias);
+    const names = members.map(member => member.name).filter(name => name);
+    const name =
+      aliased?.alias ||
+      names.filter(n => n.includes(' ')).sort((a, b) => b.length - a.length)[0] ||
+      names[0] ||
+      'unknown';
+    const email =
+      aliased?.aliasEmail ||
+      members.map(member => member.email).find(e => !ANONYMOUS_EMAILS.has(e.toLowerCase())) ||
+      null;
+
+    return {
+      id: members.map(member => member.raw).sort()[0],
+      name,
+      email,
+      isBot: members.every(member => this.isBot(member)),
+    };
+  }
+
+  private isBot(candidate: Candidate): boolean {
+    const values = [candidate.name, candidate.email];
+    if (values.some(value => DEFAULT_BOT_PATTERNS.some(pattern => pattern.test(value)))) {
+      return true;
+    }
+    return this.rules.botPatterns.some(pattern =>
+      values.some(value => value.toLowerCase().includes(pattern.toLowerCase())),
+    );
+  }
+}
+
+function usableEmail(candidate: Candidate): string | null {
+  const email = candidate.email.toLowerCase();
+  return ANONYMOUS_EMAILS.has(email) ? null : email;
+}
+
+function addTo(index: Map<string, Set<string>>, key: string, email: string) {
+  index.set(key, (index.get(key) || new Set<string>()).add(email));
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { IdentityRules } from 'types';
+import { FileBlame } from '../git/git.service';
+import { IdentityResolver } from './identity-resolver';
+import { parseMailmap } from './mailmap';
+
+export interface ResolvedBlame {
+  // Per-file blame keyed by resolved identity id.
+  files: FileBlame[];
+  // Identity id -> display name; two people may share a name.
+  names: Map<string, string>;
+}
+
+@Injectable()
+export class IdentityService {
+  // Read alongside blame so cached results can still be resolved without a checkout.
+  async readMailmap(repoPath: string): Promise<string> {
+    try {
+      return await fs.readFile(path.join(repoPath, '.mailmap'), 'utf-8');
+    } catch {
+      return ''; // Most repositories have no .mailmap.
+    }
+  }
+
+  createResolver(mailmap: string, rules: unknown): IdentityResolver {
+    return new IdentityResolver(parseMailmap(mailmap), this.normalizeRules(rules));
+  }
+
+  // Re-keys blame from raw identities to resolved people, merging aliases and dropping bots unless asked not to.
+  resolveBlame(files: FileBlame[], resolver: IdentityResolver, includeBots: boolean): ResolvedBlame {
+    const identities = resolver.resolveAll(files.flatMap(file => Object.keys(file.authors)));
+    const names = new Map<string, string>();
+
+    const resolved = files.map(file => {
+      const authors: Record<string, number> = {};
+      for (const [raw, lines] of Object.entries(file.authors)) {
+        const identity = identities.get(raw);
+        if (!identity || (identity.isBot && !includeBots)) {
+          continue;
+        }
+        authors[identity.id] = (authors[identity.id] || 0) + lines;
+        names.set(identity.id, identity.name);
+      }
+      return { path: file.path, authors };
+    });
+    return { files: resolved, names };
+  }
+
+  private normalizeRules(rules: unknown): IdentityRules {
+    const value = (rules && typeof rules === 'object' ? rules : {}) as Partial<IdentityRules>;
+    return {
+      aliases: Array.isArray(value.aliases) ? value.aliases : [],
+      botPatterns: Array.isArray(value.botPatterns) ? value.botPatterns : [],
+    };
+  }
+}
@@ -0,0 +1,54 @@
+export interface MailmapEntry {
+  properName: string | null;
+  properEmail: string | null;
+  commitName: string | null;
+  commitEmail: string;
+}
+
+const ENTRY = /^([^<]*)<([^>]*)>\s*(?:([^<]*)<([^>]*)>)?\s*$/;
+
+/**
+ * Parses a git .mailmap. Supported forms, as documented in gitmailmap(5):
+ *   Proper Name <commit@email>
+ *   <proper@email> <commit@email>
+ *   Proper Name <proper@email> <commit@email>
+ *   Proper Name <proper@email> Commit Name <commit@email>
+ */
+export function parseMailmap(content: string): MailmapEntry[] {
+  const entries: MailmapEntry[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = line && ENTRY.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const [, firstName, firstEmail, secondName, secondEmail] = match;
+    if (secondEmail === undefined) {
+      entries.push({ properName: firstName.trim() || null, properEmail: null, commitName: null, commitEmail: firstEmail.trim().toLowerCase() });
+    } else {
+      entries.push({
+        properName: firstName.trim() || null,
+        properEmail: firstEmail.trim() || null,
+        commitName: secondName.trim() || null,
+        commitEmail: secondEmail.trim().toLowerCase(),
+      });
+    }
+  }
+
+  return entries;
+}
+
+// Entries naming both the commit name and email win over email-only entries, as in git.
+export function applyMailmap(entries: MailmapEntry[], name: string, email: string): { name: string; email: string } {
+  const lowerEmail = email.toLowerCase();
+  const entry =
+    entries.find(e => e.commitEmail === lowerEmail && e.commitName !== null && e.commitName.toLowerCase() === name.toLowerCase()) ||
+    entries.find(e => e.commitEmail === lowerEmail && e.commitName === null);
+
+  if (!entry) {
+    return { name, email };
+  }
+  return { name: entry.properName || name, email: entry.properEmail || email };
+}
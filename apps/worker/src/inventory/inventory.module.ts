@@ -1,7 +1,9 @@
 import { Module } from '@nestjs/common';
+import { ToolsModule } from '../tools/tools.module';
 import { InventoryService } from './inventory.service';
 
 @Module({
+  imports: [ToolsModule],
   providers: [InventoryService],
   exports: [InventoryService],
 })
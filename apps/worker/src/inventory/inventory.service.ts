@@ -1,37 +1,110 @@
 import { Injectable } from '@nestjs/common';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
-
-export interface ClocOutput {
-    [language: string]: {
-        nFiles: number;
-        blank: number;
-        comment: number;
-        code: number;
-    };
-    SUM?: {
-        nFiles: number;
-        blank: number;
-        comment: number;
-        code: number;
-    }
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import { join } from 'path';
+import { DirectoryInventory, FileInventory, InventoryReport, LanguageBreakdown } from 'types';
+import { ensureCompleted, ToolContext, ToolNotFoundError, ToolRunner } from '../tools/tool-runner.service';
+import { countLines } from './line-counter';
+
+interface ClocFileEntry {
+  language: string;
+  blank: number;
+  comment: number;
+  code: number;
 }
 
 @Injectable()
 export class InventoryService {
-  async analyze(path: string): Promise<ClocOutput> {
+  constructor(private readonly tools: ToolRunner) {}
+
+  // Counts only `files` (relative to `path`), so excluded vendored and generated code does not add to LOC.
+  async analyze(path: string, files: string[], context?: ToolContext): Promise<InventoryReport> {
     console.log(`Running cloc on path: ${path}`);
+    if (files.length === 0) {
+      return buildReport([], 'cloc');
+    }
+
     try {
-      // The --json flag outputs the results in JSON format
-      const { stdout } = await execAsync(`cloc --json ${path}`);
-      const results: ClocOutput = JSON.parse(stdout);
+      const report = buildReport(await this.runCloc(path, files, context), 'cloc');
       console.log('cloc analysis successful.');
-      return results;
+      return report;
     } catch (error) {
+      if (error instanceof ToolNotFoundError) {
+        console.warn('cloc is not installed; counting lines in-process instead.');
+        return buildReport(await countLines(path, files), 'builtin');
+      }
       console.error('cloc analysis failed:', error);
       throw error;
     }
   }
+
+  private async runCloc(path: string, files: string[], context?: ToolContext): Promise<FileInventory[]> {
+    const listDir = await fs.mkdtemp(join(os.tmpdir(), 'devatlas-cloc-'));
+    try {
+      const listFile = join(listDir, 'files.txt');
+      await fs.writeFile(listFile, files.join('\n'));
+      // --by-file keys the JSON by path, next to the `header` and `SUM` entries.
+      const { stdout } = ensureCompleted(
+        await this.tools.run('cloc', ['--json', '--by-file', `--list-file=${listFile}`], { cwd: path, context }),
+      );
+      const output: Record<string, ClocFileEntry> = stdout.trim() ? JSON.parse(stdout) : {};
+      return Object.entries(output)
+        .filter(([file]) => file !== 'header' && file !== 'SUM')
+        .map(([file, entry]) => ({
+          path: file.replace(/^\.\//, ''),
+          language: entry.language,
+          code: entry.code,
+          comment: entry.comment,
+          blank: entry.blank,
+        }));
+    } finally {
+      await fs.rm(listDir, { recursive: true, force: true });
+    }
+  }
+}
+
+function buildReport(files: FileInventory[], counter: InventoryReport['counter']): InventoryReport {
+  const totals = { files: files.length, code: 0, comment: 0, blank: 0 };
+  const languages = new Map<string, LanguageBreakdown>();
+  const directories = new Map<string, DirectoryInventory>();
+
+  for (const file of files) {
+    totals.code += file.code;
+    totals.comment += file.comment;
+    totals.blank += file.blank;
+
+    const language = languages.get(file.language)
+      || { language: file.language, files: 0, code: 0, comment: 0, blank: 0, share: 0 };
+    language.files++;
+    language.code += file.code;
+    language.comment += file.comment;
+    language.blank += file.blank;
+    languages.set(file.language, language);
+
+    // Every ancestor directory, root included, rolls up the file.
+    const segments = file.path.split('/').slice(0, -1);
+    for (let depth = 0; depth <= segments.length; depth++) {
+      const directoryPath = depth === 0 ? '.' : segments.slice(0, depth).join('/');
+      const directory = directories.get(directoryPath)
+        || { path: directoryPath, files: 0, code: 0, comment: 0, blank: 0, languages: {} };
+      directory.files++;
+      directory.code += file.code;
+      directory.comment += file.comment;
+      directory.blank += file.blank;
+      directory.languages[file.language] = (directory.languages[file.language] || 0) + file.code;
+      directories.set(directoryPath, directory);
+    }
+  }
+
+  for (const language of languages.values()) {
+    language.share = totals.code > 0 ? Math.round((language.code / totals.code) * 1000) / 1000 : 0;
+  }
+
+  return {
+    counter,
+    totals,
+    languages: Array.from(languages.values()).sort((a, b) => b.code - a.code),
+    directories: Array.from(directories.values()).sort((a, b) => a.path.localeCompare(b.path)),
+    files: files.sort((a, b) => a.path.localeCompare(b.path)),
+  };
 }
@@ -0,0 +1,115 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FileInventory, LineCounts } from 'types';
+
+interface CommentSyntax {
+  line: string[];
+  block?: [string, string];
+}
+
+const C_STYLE: CommentSyntax = { line: ['//'], block: ['/*', '*/'] };
+const HASH: CommentSyntax = { line: ['#'] };
+const NONE: CommentSyntax = { line: [] };
+
+// Language names match cloc's so results do not depend on which counter ran.
+const LANGUAGES_BY_EXTENSION: Record<string, { language: string; comments: CommentSyntax }> = {
+  '.ts': { language: 'TypeScript', comments: C_STYLE },
+  '.tsx': { language: 'TypeScript', comments: C_STYLE },
+  '.js': { language: 'JavaScript', comments: C_STYLE },
+  '.jsx': { language: 'JavaScript', comments: C_STYLE },
+  '.mjs': { language: 'JavaScript', comments: C_STYLE },
+  '.cjs': { language: 'JavaScript', comments: C_STYLE },
+  '.py': { language: 'Python', comments: HASH },
+  '.go': { language: 'Go', comments: C_STYLE },
+  '.java': { language: 'Java', comments: C_STYLE },
+  '.kt': { language: 'Kotlin', comments: C_STYLE },
+  '.scala': { language: 'Scala', comments: C_STYLE },
+  '.rs': { language: 'Rust', comments: C_STYLE },
+  '.c': { language: 'C', comments: C_STYLE },
+  '.h': { language: 'C/C++ Header', comments: C_STYLE },
+  '.cpp': { language: 'C++', comments: C_STYLE },
+  '.cc': { language: 'C++', comments: C_STYLE },
+  '.hpp': { language: 'C/C++ Header', comments: C_STYLE },
+  '.cs': { language: 'C#', comments: C_STYLE },
+  '.swift': { language: 'Swift', comments: C_STYLE },
+  '.php': { language: 'PHP', comments: { line: ['//', '#'], block: ['/*', '*/'] } },
+  '.rb': { language: 'Ruby', comments: HASH },
+  '.sh': { language: 'Bourne Shell', comments: HASH },
+  '.bash': { language: 'Bourne Again Shell', comments: HASH },
+  '.sql': { language: 'SQL', comments: { line: ['--'], block: ['/*', '*/'] } },
+  '.html': { language: 'HTML', comments: { line: [], block: ['<!--', '-->'] } },
+  '.vue': { language: 'Vuejs Component', comments: { line: ['//'], block: ['<!--', '-->'] } },
+  '.css': { language: 'CSS', comments: { line: [], block: ['/*', '*/'] } },
+  '.scss': { language: 'SCSS', comments: C_STYLE },
+  '.json': { language: 'JSON', comments: NONE },
+  '.yaml': { language: 'YAML', comments: HASH },
+  '.yml': { language: 'YAML', comments: HASH },
+  '.toml': { language: 'TOML', comments: HASH },
+  '.md': { language: 'Markdown', comments: NONE },
+};
+
+const LANGUAGES_BY_NAME: Record<string, { language: string; comments: CommentSyntax }> = {
+  Dockerfile: { language: 'Dockerfile', comments: HASH },
+  Makefile: { language: 'make', comments: HASH },
+};
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Counts code, comment and blank lines in-process, for workers without cloc.
+ * Comment detection is line-based: a line is a comment when it starts with a
+ * line-comment marker or falls inside a block comment.
+ */
+export async function countLines(repoPath: string, files: string[]): Promise<FileInventory[]> {
+  const results: FileInventory[] = [];
+  for (const file of files) {
+    const syntax = LANGUAGES_BY_NAME[path.basename(file)] || LANGUAGES_BY_EXTENSION[path.extname(file).toLowerCase()];
+    if (!syntax) {
+      continue;
+    }
+
+    let content: Buffer;
+    try {
+      const fullPath = path.join(repoPath, file);
+      if ((await fs.stat(fullPath)).size > MAX_FILE_BYTES) {
+        continue;
+      }
+      content = await fs.readFile(fullPath);
+    } catch {
+      continue;
+    }
+    if (content.subarray(0, 8000).includes(0)) {
+      continue; // binary
+    }
+
+    results.push({ path: file, language: syntax.language, ...classifyLines(content.toString('utf-8'), syntax.comments) });
+  }
+  return results;
+}
+
+function classifyLines(content: string, comments: CommentSyntax): LineCounts {
+  const counts: LineCounts = { code: 0, comment: 0, blank: 0 };
+  let inBlock = false;
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (inBlock) {
+      counts.comment++;
+      inBlock = !line.includes(comments.block![1]);
+    } else if (line === '') {
+      counts.blank++;
+    } else if (comments.line.some(marker => line.startsWith(marker))) {
+      counts.comment++;
+    } else if (comments.block && line.startsWith(comments.block[0])) {
+      counts.comment++;
+      inBlock = !line.slice(comments.block[0].length).includes(comments.block[1]);
+    } else {
+      counts.code++;
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'path';
+import { ResolvedBlame } from '../identity/identity.service';
+
+export interface OwnershipRow {
+  path: string;
+  authorId: string;
+  author: string;
+  share: number;
+}
+
+@Injectable()
+export class OwnershipService {
+  /**
+   * Rolls per-file blame up into every directory down to `maxDepth` levels
+   * below the root ('.'), then normalizes author shares within each directory
+   * so they sum to 1 at every node. Authors are told apart by identity id, not
+   * by their display name.
+   */
+  aggregate(blame: ResolvedBlame, maxDepth: number): OwnershipRow[] {
+    const linesByDirectory = new Map<string, Map<string, number>>();
+
+    for (const file of blame.files) {
+      for (const directory of this.ancestors(file.path, maxDepth)) {
+        const authors = linesByDirectory.get(directory) || new Map<string, number>();
+        for (const [author, lines] of Object.entries(file.authors)) {
+          authors.set(author, (authors.get(author) || 0) + lines);
+        }
+        linesByDirectory.set(directory, authors);
+      }
+    }
+
+    const rows: OwnershipRow[] = [];
+    for (const [directory, authors] of linesByDirectory.entries()) {
+      const totalLines = Array.from(authors.values()).reduce((acc, lines) => acc + lines, 0);
+      for (const [authorId, lines] of authors.entries()) {
+        rows.push({
+          path: directory,
+          authorId,
+          author: blame.names.get(authorId) || authorId,
+          share: totalLines > 0 ? lines / totalLines : 0,
+        });
+      }
+    }
+
+    console.log(`Ownership computed for ${linesByDirectory.size} directories.`);
+    return rows;
+  }
+
+  // 'apps/api/src/main.ts' at depth 2 -> ['.', 'apps', 'apps/api']
+  private ancestors(filePath: string, maxDepth: number): string[] {
+    const segments = path.posix.dirname(filePath).split('/').filter(segment => segment && segment !== '.');
+    const directories = ['.'];
+    for (let depth = 1; depth <= Math.min(maxDepth, segments.length); depth++) {
+      directories.push(segments.slice(0, depth).join('/'));
+    }
+    return directories;
+  }
+}
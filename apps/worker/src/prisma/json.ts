@@ -0,0 +1,6 @@
+import { Prisma } from 'db';
+
+// Typed analysis outputs are plain JSON but lack the index signature Prisma's Json input type asks for.
+export function toJson(value: unknown): Prisma.InputJsonValue {
+  return value as Prisma.InputJsonValue;
+}
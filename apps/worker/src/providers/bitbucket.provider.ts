@@ -0,0 +1,65 @@
+import axios, { AxiosInstance } from 'axios';
+import { GitProvider, GitProviderOptions, RemoteRepository } from './git-provider.interface';
+
+const BITBUCKET_CLOUD_HOST = 'bitbucket.org';
+
+/**
+ * Bitbucket Cloud only. Bitbucket Server and Data Center speak a different
+ * REST API, so their repositories are analyzed through the generic git
+ * provider instead.
+ */
+export class BitbucketProvider implements GitProvider {
+  readonly kind = 'bitbucket';
+  readonly cloneUsername = 'x-token-auth';
+  private http: AxiosInstance;
+  private host: string;
+
+  constructor({ host, token }: GitProviderOptions = {}) {
+    if (host && host !== BITBUCKET_CLOUD_HOST) {
+      throw new Error(`The Bitbucket provider only supports ${BITBUCKET_CLOUD_HOST}; use the git provider for ${host}.`);
+    }
+    this.host = BITBUCKET_CLOUD_HOST;
+    this.http = axios.create({
+      baseURL: 'https://api.bitbucket.org/2.0',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+  }
+
+  cloneUrl(fullName: string): string {
+    return `https://${this.host}/${fullName}.git`;
+  }
+
+  // Bitbucket has no user/org distinction for listing: every handle is a workspace.
+  async listRepositories(handle: string): Promise<RemoteRepository[]> {
+    const repositories: RemoteRepository[] = [];
+    let next: string | undefined = `/repositories/${encodeURIComponent(handle)}?pagelen=100`;
+
+    while (next) {
+      const { data }: { data: any } = await this.http.get(next);
+      repositories.push(...data.values.map(toRemoteRepository));
+      next = data.next;
+    }
+
+    return repositories;
+  }
+
+  async getRepository(fullName: string): Promise<RemoteRepository> {
+    const { data } = await this.http.get(`/repositories/${fullName}`);
+    return toRemoteRepository(data);
+  }
+}
+
+function toRemoteRepository(data: any): RemoteRepository {
+  const httpsClone = (data.links?.clone || []).find((link: { name: string }) => link.name === 'https');
+  return {
+    fullName: data.full_name,
+    cloneUrl: httpsClone ? httpsClone.href : `https://${BITBUCKET_CLOUD_HOST}/${data.full_name}.git`,
+    fork: Boolean(data.parent),
+    archived: false,
+    sizeKb: Math.round((data.size || 0) / 1024),
+    stars: 0,
+    forks: 0,
+    language: data.language || null,
+    pushedAt: data.updated_on || null,
+  };
+}
@@ -0,0 +1,40 @@
+import { GitProvider, GitProviderOptions, RemoteRepository } from './git-provider.interface';
+
+/**
+ * Plain git over HTTPS for hosts without a supported API. Repositories can be
+ * cloned but not enumerated, so handles must name a single repository.
+ */
+export class GenericGitProvider implements GitProvider {
+  readonly kind = 'git';
+  readonly cloneUsername = 'oauth2';
+  private host: string;
+
+  constructor({ host }: GitProviderOptions = {}) {
+    if (!host) {
+      throw new Error('The generic git provider requires a host.');
+    }
+    this.host = host;
+  }
+
+  cloneUrl(fullName: string): string {
+    return `https://${this.host}/${fullName}.git`;
+  }
+
+  async listRepositories(handle: string): Promise<RemoteRepository[]> {
+    throw new Error(`Cannot list repositories for ${handle}: ${this.host} has no supported API. Use a repo project.`);
+  }
+
+  async getRepository(fullName: string): Promise<RemoteRepository> {
+    return {
+      fullName,
+      cloneUrl: this.cloneUrl(fullName),
+      fork: false,
+      archived: false,
+      sizeKb: 0,
+      stars: 0,
+      forks: 0,
+      language: null,
+      pushedAt: null,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { GitProviderKind, PullRequestActivity } from 'types';
+
+export interface RemoteRepository {
+  fullName: string;
+  cloneUrl: string;
+  fork: boolean;
+  archived: boolean;
+  sizeKb: number;
+  stars: number;
+  forks: number;
+  language: string | null;
+  pushedAt: string | null;
+}
+
+export interface GitProviderOptions {
+  host?: string | null;
+  token?: string | null;
+}
+
+export interface GitProvider {
+  readonly kind: GitProviderKind;
+  // HTTP basic username that accompanies a token on clone; unset when clones take no credentials.
+  readonly cloneUsername?: string;
+  cloneUrl(fullName: string): string;
+  listRepositories(handle: string, type: 'user' | 'org'): Promise<RemoteRepository[]>;
+  getRepository(fullName: string): Promise<RemoteRepository>;
+  // Only implemented by providers whose API exposes pull requests and reviews.
+  getPullRequestActivity?(fullName: string): Promise<PullRequestActivity>;
+}
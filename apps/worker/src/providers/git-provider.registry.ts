@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs';
+import { GitProviderKind } from 'types';
+import { GitProvider, GitProviderOptions, RemoteRepository } from './git-provider.interface';
+import { GitHubProvider } from './github.provider';
+import { GitLabProvider } from './gitlab.provider';
+import { BitbucketProvider } from './bitbucket.provider';
+import { GenericGitProvider } from './generic-git.provider';
+import { LocalPathProvider } from './local-path.provider';
+import { InMemoryProvider } from './in-memory.provider';
+
+// The server-wide GITHUB_TOKEN is a github.com token; it is never sent to an Enterprise host.
+const PUBLIC_GITHUB_HOSTS = ['github.com', 'api.github.com'];
+
+export interface ProviderTarget {
+  provider: string;
+  host?: string | null;
+}
+
+@Injectable()
+export class GitProviderRegistry {
+  private fixtures: Record<string, RemoteRepository[]> | null = null;
+
+  constructor() {
+    // GITHUB_FIXTURES_FILE points at a JSON map of handle -> repositories for offline runs.
+    const fixturesFile = process.env.GITHUB_FIXTURES_FILE;
+    if (fixturesFile) {
+      this.fixtures = JSON.parse(fs.readFileSync(fixturesFile, 'utf-8'));
+    }
+  }
+
+  resolve(target: ProviderTarget, options: GitProviderOptions = {}): GitProvider {
+    const kind = target.provider as GitProviderKind;
+    const providerOptions = { ...options, host: target.host };
+
+    switch (kind) {
+      case 'github':
+        if (this.fixtures) {
+          return new InMemoryProvider(kind, this.fixtures);
+        }
+        return new GitHubProvider({ ...providerOptions, token: options.token || this.serverGitHubToken(target.host) });
+      case 'gitlab':
+        return new GitLabProvider(providerOptions);
+      case 'bitbucket':
+        return new BitbucketProvider(providerOptions);
+      case 'git':
+        return new GenericGitProvider(providerOptions);
+      case 'local':
+        return new LocalPathProvider();
+      default:
+        throw new Error(`Unsupported git provider: ${target.provider}`);
+    }
+  }
+
+  private serverGitHubToken(host?: string | null): string | undefined {
+    return !host || PUBLIC_GITHUB_HOSTS.includes(host.toLowerCase()) ? process.env.GITHUB_TOKEN : undefined;
+  }
+}
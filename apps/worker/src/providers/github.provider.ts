@@ -0,0 +1,128 @@
+import axios, { AxiosInstance } from 'axios';
+import { PullRequestActivity } from 'types';
+import { GitProvider, GitProviderOptions, RemoteRepository } from './git-provider.interface';
+
+const PAGE_SIZE = 100;
+// Reviews need one request per pull request, so only the most recent ones are inspected.
+const PULL_REQUEST_SAMPLE = 30;
+
+export class GitHubProvider implements GitProvider {
+  readonly kind = 'github';
+  readonly cloneUsername = 'x-access-token';
+  private http: AxiosInstance;
+  private host: string;
+  private authenticated: boolean;
+
+  constructor({ host, token }: GitProviderOptions = {}) {
+    this.host = host || 'github.com';
+    this.authenticated = Boolean(token);
+    this.http = axios.create({
+      // GitHub Enterprise Server serves its REST API under /api/v3 on the instance host.
+      baseURL: this.host === 'github.com' ? 'https://api.github.com' : `https://${this.host}/api/v3`,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+  }
+
+  cloneUrl(fullName: string): string {
+    return `https://${this.host}/${fullName}.git`;
+  }
+
+  /**
+   * Org listings ask for every type so private and internal repositories are
+   * included. `/users/:handle/repos` only ever returns public repositories, so
+   * when the credential belongs to the handle itself its own repositories are
+   * listed through `/user/repos` instead.
+   */
+  async listRepositories(handle: string, type: 'user' | 'org'): Promise<RemoteRepository[]> {
+    let url = `/users/${handle}/repos`;
+    let params: Record<string, string> = { type: 'owner' };
+    if (type === 'org') {
+      url = `/orgs/${handle}/repos`;
+      params = { type: 'all' };
+    } else if ((await this.authenticatedLogin())?.toLowerCase() === handle.toLowerCase()) {
+      url = '/user/repos';
+      params = { affiliation: 'owner' };
+    }
+    const repositories: RemoteRepository[] = [];
+
+    for (let page = 1; ; page++) {
+      const { data } = await this.http.get(url, { params: { per_page: PAGE_SIZE, page, ...params } });
+      repositories.push(...data.map(toRemoteRepository));
+      if (data.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return repositories;
+  }
+
+  async getRepository(fullName: string): Promise<RemoteRepository> {
+    const { data } = await this.http.get(`/repos/${fullName}`);
+    return toRemoteRepository(data);
+  }
+
+  async getPullRequestActivity(fullName: string): Promise<PullRequestActivity> {
+    const { data: search } = await this.http.get('/search/issues', {
+      params: { q: `repo:${fullName} is:pr is:merged`, per_page: 1 },
+    });
+    const { data: pulls } = await this.http.get(`/repos/${fullName}/pulls`, {
+      params: { state: 'all', sort: 'created', direction: 'desc', per_page: PULL_REQUEST_SAMPLE },
+    });
+
+    let reviews = 0;
+    let reviewComments = 0;
+    let comments = 0;
+    for (const pull of pulls) {
+      const [{ data: detail }, { data: pullReviews }] = await Promise.all([
+        this.http.get(`/repos/${fullName}/pulls/${pull.number}`),
+        this.http.get(`/repos/${fullName}/pulls/${pull.number}/reviews`, { params: { per_page: PAGE_SIZE } }),
+      ]);
+      reviews += pullReviews.length;
+      reviewComments += detail.review_comments || 0;
+      comments += detail.comments || 0;
+    }
+
+    return {
+      merged: search.total_count || 0,
+      sampled: pulls.length,
+      reviews,
+      reviewComments,
+      comments,
+      avgDescriptionLength: averageLength(pulls.map((pull: any) => pull.body)),
+    };
+  }
+
+  // App installation tokens act for no user, so `/user` rejects them.
+  private async authenticatedLogin(): Promise<string | null> {
+    if (!this.authenticated) {
+      return null;
+    }
+    try {
+      const { data } = await this.http.get('/user');
+      return data.login || null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+function averageLength(texts: (string | null)[]): number {
+  return texts.length > 0 ? Math.round(texts.reduce((acc, text) => acc + (text || '').trim().length, 0) / texts.length) : 0;
+}
+
+function toRemoteRepository(data: any): RemoteRepository {
+  return {
+    fullName: data.full_name,
+    cloneUrl: data.clone_url,
+    fork: Boolean(data.fork),
+    archived: Boolean(data.archived),
+    sizeKb: data.size || 0,
+    stars: data.stargazers_count || 0,
+    forks: data.forks_count || 0,
+    language: data.language || null,
+    pushedAt: data.pushed_at || null,
+  };
+}
@@ -0,0 +1,95 @@
+import axios, { AxiosInstance } from 'axios';
+import { PullRequestActivity } from 'types';
+import { GitProvider, GitProviderOptions, RemoteRepository } from './git-provider.interface';
+
+const PAGE_SIZE = 100;
+// Approvals need one request per merge request, so only the most recent ones are inspected.
+const MERGE_REQUEST_SAMPLE = 30;
+
+export class GitLabProvider implements GitProvider {
+  readonly kind = 'gitlab';
+  readonly cloneUsername = 'oauth2';
+  private http: AxiosInstance;
+  private host: string;
+
+  constructor({ host, token }: GitProviderOptions = {}) {
+    this.host = host || 'gitlab.com';
+    this.http = axios.create({
+      baseURL: `https://${this.host}/api/v4`,
+      headers: token ? { 'PRIVATE-TOKEN': token } : {},
+    });
+  }
+
+  cloneUrl(fullName: string): string {
+    return `https://${this.host}/${fullName}.git`;
+  }
+
+  // Orgs map to GitLab groups (including subgroups), users to their personal namespace.
+  async listRepositories(handle: string, type: 'user' | 'org'): Promise<RemoteRepository[]> {
+    const url = type === 'org'
+      ? `/groups/${encodeURIComponent(handle)}/projects`
+      : `/users/${encodeURIComponent(handle)}/projects`;
+    const params = { per_page: PAGE_SIZE, statistics: true, include_subgroups: type === 'org' };
+    const repositories: RemoteRepository[] = [];
+
+    for (let page = 1; ; page++) {
+      const { data } = await this.http.get(url, { params: { ...params, page } });
+      repositories.push(...data.map(toRemoteRepository));
+      if (data.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return repositories;
+  }
+
+  async getRepository(fullName: string): Promise<RemoteRepository> {
+    const { data } = await this.http.get(`/projects/${encodeURIComponent(fullName)}`, {
+      params: { statistics: true },
+    });
+    return toRemoteRepository(data);
+  }
+
+  // GitLab has no separate review objects: approvals count as reviews and notes as comments.
+  async getPullRequestActivity(fullName: string): Promise<PullRequestActivity> {
+    const project = `/projects/${encodeURIComponent(fullName)}/merge_requests`;
+    const merged = await this.http.get(project, { params: { state: 'merged', per_page: 1 } });
+    const { data: mergeRequests } = await this.http.get(project, {
+      params: { state: 'all', order_by: 'created_at', sort: 'desc', per_page: MERGE_REQUEST_SAMPLE },
+    });
+
+    let reviews = 0;
+    for (const mergeRequest of mergeRequests) {
+      const { data: approvals } = await this.http.get(`${project}/${mergeRequest.iid}/approvals`);
+      reviews += (approvals.approved_by || []).length;
+    }
+
+    const descriptions: string[] = mergeRequests.map((mergeRequest: any) => (mergeRequest.description || '').trim());
+    return {
+      // X-Total is omitted for very large result sets; the page itself is then the only lower bound.
+      merged: parseInt(merged.headers['x-total'], 10) || merged.data.length,
+      sampled: mergeRequests.length,
+      reviews,
+      reviewComments: 0,
+      comments: mergeRequests.reduce((acc: number, mergeRequest: any) => acc + (mergeRequest.user_notes_count || 0), 0),
+      avgDescriptionLength: descriptions.length > 0
+        ? Math.round(descriptions.reduce((acc, description) => acc + description.length, 0) / descriptions.length)
+        : 0,
+    };
+  }
+}
+
+function toRemoteRepository(data: any): RemoteRepository {
+  return {
+    fullName: data.path_with_namespace,
+    cloneUrl: data.http_url_to_repo,
+    fork: Boolean(data.forked_from_project),
+    archived: Boolean(data.archived),
+    // Statistics are only returned to members with at least Reporter access.
+    sizeKb: Math.round((data.statistics?.repository_size || 0) / 1024),
+    stars: data.star_count || 0,
+    forks: data.forks_count || 0,
+    language: null,
+    pushedAt: data.last_activity_at || null,
+  };
+}
@@ -0,0 +1,35 @@
+import { GitProviderKind } from 'types';
+import { GitProvider, RemoteRepository } from './git-provider.interface';
+
+/**
+ * Serves repositories from a fixed map instead of a hosting API, so the
+ * discovery phase can run in tests and offline environments.
+ */
+export class InMemoryProvider implements GitProvider {
+  constructor(
+    readonly kind: GitProviderKind,
+    private readonly repositoriesByHandle: Record<string, RemoteRepository[]>,
+  ) {}
+
+  cloneUrl(fullName: string): string {
+    const repository = this.findRepository(fullName);
+    return repository ? repository.cloneUrl : fullName;
+  }
+
+  async listRepositories(handle: string): Promise<RemoteRepository[]> {
+    return this.repositoriesByHandle[handle] || [];
+  }
+
+  async getRepository(fullName: string): Promise<RemoteRepository> {
+    const repository = this.findRepository(fullName);
+    if (!repository) {
+      throw new Error(`Repository ${fullName} not found.`);
+    }
+    return repository;
+  }
+
+  private findRepository(fullName: string): RemoteRepository | undefined {
+    const owner = fullName.split('/')[0];
+    return (this.repositoriesByHandle[owner] || []).find(repo => repo.fullName === fullName);
+  }
+}
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { GitProvider, RemoteRepository } from './git-provider.interface';
+
+/**
+ * Repositories mirrored onto the worker's filesystem, cloned over file://.
+ * Handles are resolved relative to LOCAL_MIRRORS_ROOT and may not escape it:
+ * a handle without a slash names a directory of mirrors, `group/repo` names a
+ * single repository. Both working copies and bare `repo.git` mirrors work.
+ */
+export class LocalPathProvider implements GitProvider {
+  readonly kind = 'local';
+  private root: string;
+
+  constructor(root = process.env.LOCAL_MIRRORS_ROOT || '/srv/devatlas/mirrors') {
+    this.root = path.resolve(root);
+  }
+
+  cloneUrl(fullName: string): string {
+    return `file://${this.resolveRepository(fullName)}`;
+  }
+
+  async listRepositories(handle: string): Promise<RemoteRepository[]> {
+    const directory = this.resolveInsideRoot(handle);
+    const entries = await fsp.readdir(directory, { withFileTypes: true });
+    const repositories: RemoteRepository[] = [];
+
+    for (const entry of entries) {
+      if (entry.isDirectory() && isGitRepository(path.join(directory, entry.name))) {
+        repositories.push(await this.getRepository(`${stripFileScheme(handle)}/${entry.name.replace(/\.git$/, '')}`));
+      }
+    }
+
+    return repositories;
+  }
+
+  async getRepository(fullName: string): Promise<RemoteRepository> {
+    const repositoryPath = this.resolveRepository(fullName);
+    const stats = await fsp.stat(repositoryPath);
+    return {
+      fullName: stripFileScheme(fullName),
+      cloneUrl: `file://${repositoryPath}`,
+      fork: false,
+      archived: false,
+      sizeKb: 0,
+      stars: 0,
+      forks: 0,
+      language: null,
+      pushedAt: stats.mtime.toISOString(),
+    };
+  }
+
+  private resolveRepository(fullName: string): string {
+    const candidate = this.resolveInsideRoot(fullName);
+    for (const repositoryPath of [candidate, `${candidate}.git`]) {
+      if (isGitRepository(repositoryPath)) {
+        return repositoryPath;
+      }
+    }
+    throw new Error(`No git repository found at ${fullName}.`);
+  }
+
+  private resolveInsideRoot(handle: string): string {
+    const resolved = path.resolve(this.root, stripFileScheme(handle).replace(/^\/+/, ''));
+    if (resolved !== this.root && !resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Local path ${handle} is outside of the mirrors root.`);
+    }
+    return resolved;
+  }
+}
+
+function stripFileScheme(handle: string): string {
+  return handle.replace(/^file:\/\//, '');
+}
+
+function isGitRepository(directory: string): boolean {
+  return fs.existsSync(path.join(directory, '.git')) || fs.existsSync(path.join(directory, 'HEAD'));
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { GitProviderRegistry } from './git-provider.registry';
+
+@Module({
+  providers: [GitProviderRegistry],
+  exports: [GitProviderRegistry],
+})
+export class ProvidersModule {}
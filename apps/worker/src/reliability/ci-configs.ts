@@ -0,0 +1,17 @@
+import { CiProvider, CiStep } from 'types';
+
+// Where each CI system keeps its configuration, matched against repository-relative paths.
+export const CI_CONFIG_PATTERNS: { provider: CiProvider; pattern: RegExp }[] = [
+  { provider: 'github-actions', pattern: /^\.github\/workflows\/[^/]+\.ya?ml$/ },
+  { provider: 'gitlab-ci', pattern: /^\.gitlab-ci\.ya?ml$/ },
+  { provider: 'circleci', pattern: /^\.circleci\/config\.ya?ml$/ },
+  { provider: 'jenkins', pattern: /(^|\/)Jenkinsfile$/ },
+  { provider: 'azure-pipelines', pattern: /^(azure-pipelines\.ya?ml|\.azure-pipelines\/[^/]+\.ya?ml)$/ },
+];
+
+// Commands and job names that indicate each kind of step; matched per line with comments removed.
+export const CI_STEP_PATTERNS: Record<CiStep, RegExp> = {
+  lint: /\b(lint|eslint|ruff|flake8|pylint|golangci-lint|rubocop|checkstyle|clippy|prettier --check)\b/i,
+  test: /\b(test|tests|pytest|jest|vitest|mocha|rspec|tox|go test|cargo test|mvn (verify|test)|gradlew? test)\b/i,
+  build: /\b(build|compile|tsc|webpack|mvn (package|install)|gradlew? (build|assemble)|cargo build|go build|docker build)\b/i,
+};
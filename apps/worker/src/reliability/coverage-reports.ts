@@ -0,0 +1,206 @@
+import { CoverageCounts, CoverageFormat } from 'types';
+
+// Coverage for one source file, with the path exactly as the report wrote it.
+export interface FileCoverage extends CoverageCounts {
+  path: string;
+}
+
+export interface ParsedReport {
+  // Directories the report's relative paths may be anchored to (Cobertura's <sources>).
+  sources: string[];
+  files: FileCoverage[];
+}
+
+// File names each format is published under; content is checked again when parsing.
+export const COVERAGE_REPORT_PATTERNS: { format: CoverageFormat; pattern: RegExp }[] = [
+  { format: 'lcov', pattern: /(^|\/)(lcov\.info|[^/]+\.lcov)$/ },
+  { format: 'cobertura', pattern: /(^|\/)(coverage|cobertura|cobertura-coverage)\.xml$/ },
+  { format: 'istanbul', pattern: /(^|\/)coverage-final\.json$/ },
+  { format: 'coverage.py', pattern: /(^|\/)coverage\.json$/ },
+];
+
+export function parseCoverageReport(format: CoverageFormat, content: string): ParsedReport {
+  switch (format) {
+    case 'lcov':
+      return { sources: [], files: parseLcov(content) };
+    case 'cobertura':
+      return parseCobertura(content);
+    case 'istanbul':
+      return { sources: [], files: parseIstanbul(JSON.parse(content)) };
+    case 'coverage.py':
+      return { sources: [], files: parseCoveragePy(JSON.parse(content)) };
+  }
+}
+
+// SF starts a record and end_of_record closes it; LF/LH and BRF/BRH are the per-file totals.
+function parseLcov(content: string): FileCoverage[] {
+  const files: FileCoverage[] = [];
+  let current: FileCoverage | null = null;
+  let hitLines = 0;
+  let foundLines = 0;
+
+  for (const line of content.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    const key = separator === -1 ? line.trim() : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).trim();
+
+    if (key === 'SF') {
+      current = { path: value, linesCovered: 0, linesTotal: 0, branchesCovered: 0, branchesTotal: 0 };
+      hitLines = 0;
+      foundLines = 0;
+    } else if (!current) {
+      continue;
+    } else if (key === 'DA') {
+      foundLines++;
+      if (Number(value.split(',')[1]) > 0) {
+        hitLines++;
+      }
+    } else if (key === 'LF') {
+      current.linesTotal = Number(value) || 0;
+    } else if (key === 'LH') {
+      current.linesCovered = Number(value) || 0;
+    } else if (key === 'BRF') {
+      current.branchesTotal = Number(value) || 0;
+    } else if (key === 'BRH') {
+      current.branchesCovered = Number(value) || 0;
+    } else if (key === 'end_of_record') {
+      // Some generators omit the summary lines, leaving only DA entries to count.
+      if (current.linesTotal === 0 && foundLines > 0) {
+        current.linesTotal = foundLines;
+        current.linesCovered = hitLines;
+      }
+      files.push(current);
+      current = null;
+    }
+  }
+  return files;
+}
+
+// Lines are read per <class>; method-level <line> entries repeat class lines, so each number counts once.
+function parseCobertura(content: string): ParsedReport {
+  if (!/<coverage\b/.test(content)) {
+    return { sources: [], files: [] };
+  }
+  const sources = Array.from(content.matchAll(/<source>([^<]*)<\/source>/g), match => decodeXml(match[1].trim()));
+  const lines = new Map<string, Map<string, { hit: boolean; branchesCovered: number; branchesTotal: number }>>();
+
+  for (const [, classAttributes, body] of content.matchAll(/<class\b([^>]*)>([\s\S]*?)<\/class>/g)) {
+    const filename = attribute(classAttributes, 'filename');
+    if (!filename) {
+      continue;
+    }
+    const fileLines = lines.get(filename) || new Map();
+    for (const [, lineAttributes] of body.matchAll(/<line\b([^>]*?)\/?>/g)) {
+      const number = attribute(lineAttributes, 'number');
+      if (!number) {
+        continue;
+      }
+      const conditions = /\((\d+)\/(\d+)\)/.exec(attribute(lineAttributes, 'condition-coverage') || '');
+      const previous = fileLines.get(number);
+      fileLines.set(number, {
+        hit: Boolean(previous?.hit) || Number(attribute(lineAttributes, 'hits')) > 0,
+        branchesCovered: Math.max(previous?.branchesCovered || 0, conditions ? Number(conditions[1]) : 0),
+        branchesTotal: Math.max(previous?.branchesTotal || 0, conditions ? Number(conditions[2]) : 0),
+      });
+    }
+    lines.set(filename, fileLines);
+  }
+
+  const files = Array.from(lines.entries()).map(([filename, fileLines]) => {
+    const entries = Array.from(fileLines.values());
+    return {
+      path: decodeXml(filename),
+      linesCovered: entries.filter(entry => entry.hit).length,
+      linesTotal: entries.length,
+      branchesCovered: entries.reduce((acc, entry) => acc + entry.branchesCovered, 0),
+      branchesTotal: entries.reduce((acc, entry) => acc + entry.branchesTotal, 0),
+    };
+  });
+  return { sources, files };
+}
+
+interface IstanbulFile {
+  path?: string;
+  statementMap?: Record<string, { start: { line: number } }>;
+  s?: Record<string, number>;
+  b?: Record<string, number[]>;
+}
+
+// A line counts as covered when any statement starting on it ran.
+function parseIstanbul(report: Record<string, IstanbulFile>): FileCoverage[] {
+  return Object.entries(report).map(([key, file]) => {
+    const lines = new Map<number, boolean>();
+    for (const [id, location] of Object.entries(file.statementMap || {})) {
+      const line = location.start.line;
+      lines.set(line, Boolean(lines.get(line)) || (file.s?.[id] || 0) > 0);
+    }
+    const branches = Object.values(file.b || {}).flat();
+    return {
+      path: file.path || key,
+      linesCovered: Array.from(lines.values()).filter(hit => hit).length,
+      linesTotal: lines.size,
+      branchesCovered: branches.filter(count => count > 0).length,
+      branchesTotal: branches.length,
+    };
+  });
+}
+
+interface CoveragePyReport {
+  files?: Record<string, {
+    summary?: { covered_lines?: number; num_statements?: number; covered_branches?: number; num_branches?: number };
+  }>;
+}
+
+function parseCoveragePy(report: CoveragePyReport): FileCoverage[] {
+  return Object.entries(report.files || {})
+    .filter(([, file]) => file.summary)
+    .map(([path, { summary }]) => ({
+      path,
+      linesCovered: summary!.covered_lines || 0,
+      linesTotal: summary!.num_statements || 0,
+      branchesCovered: summary!.covered_branches || 0,
+      branchesTotal: summary!.num_branches || 0,
+    }));
+}
+
+// The first README image that looks like a coverage badge and states a percentage, in its URL or alt text.
+export function parseCoverageBadge(readme: string): { url: string; percent: number } | null {
+  const images = [
+    ...Array.from(readme.matchAll(/!\[([^\]]*)\]\(\s*([^)\s]+)/g), match => ({ alt: match[1], url: match[2] })),
+    ...Array.from(readme.matchAll(/<img\b[^>]*>/gi), match => ({
+      alt: attribute(match[0], 'alt') || '',
+      url: attribute(match[0], 'src') || '',
+    })),
+  ];
+
+  for (const { alt, url } of images) {
+    if (!/coverage|codecov|coveralls/i.test(`${alt} ${url}`)) {
+      continue;
+    }
+    let decoded = url;
+    try {
+      decoded = decodeURIComponent(url);
+    } catch {
+      // Keep the raw URL; a stray % is not worth failing over.
+    }
+    const percent = /(\d{1,3}(?:\.\d+)?)\s*%/.exec(decoded) || /(\d{1,3}(?:\.\d+)?)\s*%/.exec(alt);
+    if (percent && Number(percent[1]) <= 100) {
+      return { url, percent: Number(percent[1]) };
+    }
+  }
+  return null;
+}
+
+function attribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}="([^"]*)"`).exec(attributes);
+  return match ? match[1] : null;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,255 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  CiConfig,
+  CiProfile,
+  CiStep,
+  CoverageCounts,
+  CoverageReport,
+  DirectoryCoverage,
+  ReliabilityProfile,
+  StackProfile,
+  TestProfile,
+} from 'types';
+import { CI_CONFIG_PATTERNS, CI_STEP_PATTERNS } from './ci-configs';
+import { COVERAGE_REPORT_PATTERNS, FileCoverage, parseCoverageBadge, parseCoverageReport } from './coverage-reports';
+
+const TEST_DIRECTORIES = new Set(['test', 'tests', '__tests__', 'spec', 'specs', 'e2e', 'integration-tests']);
+
+const TEST_FILE_PATTERNS = [
+  /\.(test|spec)\.[cm]?[jt]sx?$/,
+  /(^|\/)test_[^/]+\.py$/,
+  /_test\.(py|go)$/,
+  /(Test|Tests|IT)\.(java|kt|cs)$/,
+  /_spec\.rb$/,
+];
+
+const SOURCE_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.java', '.kt', '.scala', '.rs', '.rb', '.php', '.cs', '.swift',
+  '.c', '.cc', '.cpp', '.h', '.hpp',
+]);
+
+// Frameworks identified by their config file when no manifest declares them.
+const TEST_CONFIG_FILES: { framework: string; pattern: RegExp }[] = [
+  { framework: 'Jest', pattern: /(^|\/)jest\.config\.[cm]?[jt]s$/ },
+  { framework: 'Vitest', pattern: /(^|\/)vitest\.config\.[cm]?[jt]s$/ },
+  { framework: 'Mocha', pattern: /(^|\/)\.mocharc(\.[a-z]+)?$/ },
+  { framework: 'Playwright', pattern: /(^|\/)playwright\.config\.[cm]?[jt]s$/ },
+  { framework: 'Cypress', pattern: /(^|\/)cypress\.config\.[cm]?[jt]s$/ },
+  { framework: 'pytest', pattern: /(^|\/)(pytest\.ini|conftest\.py)$/ },
+  { framework: 'go test', pattern: /_test\.go$/ },
+];
+
+@Injectable()
+export class ReliabilityService {
+  // `artifacts` are generated files left out of the analysis, where committed coverage reports usually live.
+  async detect(repoPath: string, files: string[], artifacts: string[], stack: StackProfile): Promise<ReliabilityProfile> {
+    const tests = this.detectTests(files, stack);
+    const ci = await this.detectCi(repoPath, files);
+    const coverage = await this.detectCoverage(repoPath, files, artifacts);
+    console.log(`Tests: ${tests.testFiles} test / ${tests.sourceFiles} source files; CI: ${ci.configs.map(c => c.provider).join(', ') || 'none'}; coverage: ${coverage.lineCoverage ?? coverage.status}`);
+    return { tests, ci, coverage };
+  }
+
+  private detectTests(files: string[], stack: StackProfile): TestProfile {
+    let testFiles = 0;
+    let sourceFiles = 0;
+    const testDirectories = new Set<string>();
+
+    for (const file of files) {
+      if (!SOURCE_EXTENSIONS.has(path.extname(file))) {
+        continue;
+      }
+      const segments = file.split('/');
+      const directoryIndex = segments.slice(0, -1).findIndex(segment => TEST_DIRECTORIES.has(segment.toLowerCase()));
+      if (directoryIndex !== -1) {
+        testDirectories.add(segments.slice(0, directoryIndex + 1).join('/'));
+      }
+      if (directoryIndex !== -1 || TEST_FILE_PATTERNS.some(pattern => pattern.test(file))) {
+        testFiles++;
+      } else {
+        sourceFiles++;
+      }
+    }
+
+    const frameworks = new Set(stack.frameworks.filter(framework => framework.kind === 'test').map(framework => framework.name));
+    for (const { framework, pattern } of TEST_CONFIG_FILES) {
+      if (files.some(file => pattern.test(file))) {
+        frameworks.add(framework);
+      }
+    }
+
+    return {
+      hasTests: testFiles > 0,
+      testFiles,
+      sourceFiles,
+      testRatio: sourceFiles > 0 ? Math.round((testFiles / sourceFiles) * 1000) / 1000 : 0,
+      testDirectories: Array.from(testDirectories).sort(),
+      frameworks: Array.from(frameworks).sort(),
+    };
+  }
+
+  private async detectCi(repoPath: string, files: string[]): Promise<CiProfile> {
+    const configs: CiConfig[] = [];
+    for (const file of files) {
+      const match = CI_CONFIG_PATTERNS.find(({ pattern }) => pattern.test(file));
+      if (match) {
+        configs.push({ provider: match.provider, path: file, steps: detectSteps(await read(repoPath, file)) });
+      }
+    }
+
+    const steps = new Set(configs.flatMap(config => config.steps));
+    return {
+      hasCI: configs.length > 0,
+      configs,
+      steps: (Object.keys(CI_STEP_PATTERNS) as CiStep[]).filter(step => steps.has(step)),
+    };
+  }
+
+  // Committed reports win over a README badge; a badge only supplies an overall line percentage.
+  private async detectCoverage(repoPath: string, files: string[], artifacts: string[]): Promise<CoverageReport> {
+    const reports: CoverageReport['reports'] = [];
+    const byFile = new Map<string, FileCoverage>();
+    const known = new Set(files);
+
+    for (const file of [...files, ...artifacts]) {
+      const match = COVERAGE_REPORT_PATTERNS.find(({ pattern }) => pattern.test(file));
+      if (!match) {
+        continue;
+      }
+      let parsed;
+      try {
+        parsed = parseCoverageReport(match.format, await read(repoPath, file));
+      } catch (error) {
+        console.warn(`Could not parse coverage report ${file}: ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
+      if (parsed.files.length === 0) {
+        continue;
+      }
+      reports.push({ path: file, format: match.format });
+      for (const entry of parsed.files) {
+        const resolved = resolveCoveredPath(entry.path, file, parsed.sources, known);
+        const key = resolved ?? entry.path;
+        const previous = byFile.get(key);
+        // Several reports can cover the same file (e.g. per-package runs); keep the most complete one.
+        if (!previous || entry.linesTotal > previous.linesTotal
+          || (entry.linesTotal === previous.linesTotal && entry.linesCovered > previous.linesCovered)) {
+          // Files that match nothing tracked still count toward the totals, just not toward any directory.
+          byFile.set(key, { ...entry, path: resolved ?? '' });
+        }
+      }
+    }
+
+    const totals = sumCounts(Array.from(byFile.values()));
+    if (totals.linesTotal > 0) {
+      return {
+        status: 'measured',
+        reports,
+        badge: null,
+        lineCoverage: percent(totals.linesCovered, totals.linesTotal),
+        branchCoverage: percent(totals.branchesCovered, totals.branchesTotal),
+        directories: rollUpCoverage(Array.from(byFile.values()).filter(entry => entry.path)),
+      };
+    }
+
+    const readme = files.find(file => file.toLowerCase() === 'readme.md');
+    const badge = readme ? parseCoverageBadge(await read(repoPath, readme)) : null;
+    return {
+      status: badge ? 'badge' : 'unknown',
+      reports,
+      badge: badge?.url ?? null,
+      lineCoverage: badge?.percent ?? null,
+      branchCoverage: null,
+      directories: [],
+    };
+  }
+}
+
+/**
+ * Maps a path as written in a coverage report to a tracked file. Reports use
+ * paths relative to wherever the tests ran (often the report's package) or
+ * absolute paths from the CI machine, so relative paths are tried against the
+ * report's ancestors and any <sources>, then leading segments are dropped
+ * until the remainder names a tracked file.
+ */
+function resolveCoveredPath(reported: string, reportPath: string, sources: string[], known: Set<string>): string | null {
+  const normalized = reported.replace(/\\/g, '/').replace(/^\.\//, '');
+  const candidates: string[] = [];
+  if (!normalized.startsWith('/') && !/^[a-z]:\//i.test(normalized)) {
+    const segments = path.posix.dirname(reportPath).split('/').filter(segment => segment !== '.');
+    for (let depth = segments.length; depth >= 0; depth--) {
+      candidates.push(path.posix.join(...segments.slice(0, depth), normalized));
+    }
+  }
+  const anchored = sources.map(source => path.posix.join(source.replace(/\\/g, '/'), normalized));
+  candidates.push(...anchored);
+
+  const found = candidates.find(candidate => known.has(candidate));
+  if (found) {
+    return found;
+  }
+  for (const candidate of [normalized, ...anchored]) {
+    const segments = candidate.split('/').filter(segment => segment);
+    for (let start = 1; start < segments.length; start++) {
+      const suffix = segments.slice(start).join('/');
+      if (known.has(suffix)) {
+        return suffix;
+      }
+    }
+  }
+  return null;
+}
+
+// Every ancestor directory, root included, sums the files beneath it.
+function rollUpCoverage(files: FileCoverage[]): DirectoryCoverage[] {
+  const directories = new Map<string, CoverageCounts>();
+  for (const file of files) {
+    const segments = file.path.split('/').slice(0, -1);
+    for (let depth = 0; depth <= segments.length; depth++) {
+      const directoryPath = depth === 0 ? '.' : segments.slice(0, depth).join('/');
+      directories.set(directoryPath, sumCounts([directories.get(directoryPath), file]));
+    }
+  }
+  return Array.from(directories.entries())
+    .map(([directoryPath, counts]) => ({
+      path: directoryPath,
+      ...counts,
+      lineCoverage: percent(counts.linesCovered, counts.linesTotal),
+      branchCoverage: percent(counts.branchesCovered, counts.branchesTotal),
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function sumCounts(entries: (CoverageCounts | undefined)[]): CoverageCounts {
+  const totals = { linesCovered: 0, linesTotal: 0, branchesCovered: 0, branchesTotal: 0 };
+  for (const entry of entries) {
+    if (entry) {
+      totals.linesCovered += entry.linesCovered;
+      totals.linesTotal += entry.linesTotal;
+      totals.branchesCovered += entry.branchesCovered;
+      totals.branchesTotal += entry.branchesTotal;
+    }
+  }
+  return totals;
+}
+
+// Percent with one decimal place, or null when there was nothing to cover.
+function percent(covered: number, total: number): number | null {
+  return total > 0 ? Math.round((covered / total) * 1000) / 10 : null;
+}
+
+function detectSteps(content: string): CiStep[] {
+  const lines = content.split(/\r?\n/).map(line => line.replace(/(^|\s)(#|\/\/).*$/, ''));
+  return (Object.keys(CI_STEP_PATTERNS) as CiStep[])
+    .filter(step => lines.some(line => CI_STEP_PATTERNS[step].test(line)));
+}
+
+async function read(repoPath: string, file: string): Promise<string> {
+  try {
+    return await fs.readFile(path.join(repoPath, file), 'utf-8');
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SecurityModule } from '../security/security.module';
+import { SbomService } from './sbom.service';
+
+@Module({
+  imports: [SecurityModule],
+  providers: [SbomService],
+  exports: [SbomService],
+})
+export class SbomModule {}
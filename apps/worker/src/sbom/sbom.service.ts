@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { LockedPackage, OsvEcosystem, Sbom, SbomComponent } from 'types';
+import { mergePackage } from '../security/lockfiles';
+import { SecurityService } from '../security/security.service';
+
+// purl types (https://github.com/package-url/purl-spec) of the ecosystems lockfiles are read for.
+const PURL_TYPES: Record<OsvEcosystem, string> = {
+  npm: 'npm',
+  PyPI: 'pypi',
+  Go: 'golang',
+  'crates.io': 'cargo',
+};
+
+@Injectable()
+export class SbomService {
+  constructor(private readonly security: SecurityService) {}
+
+  /**
+   * The repository's bill of materials: every registry package its
+   * lockfiles resolve, with a package URL and whatever license and hashes
+   * the lockfiles record. It is stored format-neutral; CycloneDX and SPDX
+   * documents are rendered from it on export.
+   */
+  async generate(repoPath: string, files: string[]): Promise<Sbom> {
+    console.log(`Generating SBOM for path: ${repoPath}`);
+    const { lockfiles, packages } = await this.security.lockedPackages(repoPath, files);
+
+    // Names that differ only in PyPI normalization are one component.
+    const components = new Map<string, SbomComponent>();
+    for (const entry of packages) {
+      const purl = purlOf(entry);
+      const existing = components.get(purl);
+      if (existing) {
+        mergePackage(existing, entry);
+      } else {
+        components.set(purl, { ...entry, purl });
+      }
+    }
+
+    console.log(`SBOM: ${components.size} components from ${lockfiles.length} lockfiles.`);
+    return {
+      lockfiles,
+      components: Array.from(components.values()).sort((a, b) => a.purl.localeCompare(b.purl)),
+    };
+  }
+}
+
+// pkg:npm/%40scope/name@1.0.0, pkg:pypi/django@3.2.0, pkg:golang/github.com/a/b@v1.0.0, pkg:cargo/serde@1.0.1
+function purlOf(entry: LockedPackage): string {
+  const name = entry.ecosystem === 'PyPI' ? entry.name.toLowerCase().replace(/_/g, '-') : entry.name;
+  // The lockfile parsers drop Go's "v" prefix for OSV; the purl keeps the module version as Go writes it.
+  const version = entry.ecosystem === 'Go' ? `v${entry.version}` : entry.version;
+  const path = name.split('/').map(segment => encodeURIComponent(segment)).join('/');
+  return `pkg:${PURL_TYPES[entry.ecosystem]}/${path}@${encodeURIComponent(version)}`;
+}
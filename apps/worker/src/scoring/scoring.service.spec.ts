@@ -0,0 +1,67 @@
+import { AnalysisMetrics } from 'types';
+import { ScoringService } from './scoring.service';
+
+function metrics(overrides: Partial<AnalysisMetrics> = {}): AnalysisMetrics {
+  return {
+    handle: 'acme',
+    dominantLanguage: 'TypeScript',
+    totalLoc: 12000,
+    lintIssues: 30,
+    lintErrors: 10,
+    lintWarnings: 20,
+    vulnCount: 1,
+    vulnSeverities: { critical: 0, high: 0, medium: 1, low: 0, unknown: 0 },
+    secretsFound: 0,
+    readmeScore: 80,
+    busFactor: 2,
+    stars: 12,
+    forks: 3,
+    commitQuality: null,
+    pullRequests: null,
+    hasTests: true,
+    hasCI: true,
+    testRatio: 0.2,
+    ciSteps: [],
+    coverage: 'unknown',
+    lineCoverage: null,
+    branchCoverage: null,
+    avgComplexity: 3.4,
+    ...overrides,
+  };
+}
+
+describe('ScoringService', () => {
+  const scoring = new ScoringService();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Every sub-score is stored in an Int column.
+  it('returns whole numbers for a fractional average complexity', () => {
+    const scores = scoring.calculateScores(metrics());
+    const { details, ...subScores } = scores;
+
+    for (const value of Object.values(subScores)) {
+      expect(Number.isInteger(value)).toBe(true);
+    }
+    expect(details.complexityPenalty).toBeCloseTo(6.8);
+    // 100 - (10 + 20 * 0.5) / 12 * 2 - 6.8 = 89.87
+    expect(scores.craft).toBe(90);
+  });
+
+  it('caps craft at 70 when no linter completed', () => {
+    expect(scoring.calculateScores(metrics({ lintIssues: -1, lintErrors: 0, lintWarnings: 0, avgComplexity: 1.5 })).craft).toBe(70);
+  });
+
+  it('caps security at 70 when no dependency audit ran', () => {
+    const scores = scoring.calculateScores(metrics({ vulnCount: -1, vulnSeverities: { critical: 0, high: 0, medium: 0, low: 0, unknown: 0 } }));
+
+    expect(scores.security).toBe(70);
+    expect(scores.details.vulnsMeasured).toBe(false);
+  });
+});
@@ -1,5 +1,14 @@
 import { Injectable } from '@nestjs/common';
-import { AnalysisMetrics, ScoreData } from 'types';
+import { AnalysisMetrics, CommitQuality, PullRequestActivity, ScoreData, VULNERABILITY_SEVERITIES, VulnerabilitySeverity } from 'types';
+
+// How many medium-severity vulnerabilities one of each severity counts as; unrated advisories count as medium.
+const SEVERITY_WEIGHTS: Record<VulnerabilitySeverity, number> = {
+  critical: 4,
+  high: 2,
+  medium: 1,
+  low: 0.25,
+  unknown: 1,
+};
 
 @Injectable()
 export class ScoringService {
@@ -8,24 +17,57 @@ export class ScoringService {
 
     const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
 
-    // Craft (25%) - based on lint issues per KLOC
-    const lintIssuesPerKloc = metrics.totalLoc > 0 ? (metrics.lintIssues / (metrics.totalLoc / 1000)) : 0;
-    const craft = clamp(100 - lintIssuesPerKloc * 2, 0, 100);
+    // Craft (25%) - lint issues per KLOC (warnings count half), less up to 20 for an average cyclomatic complexity of 10 or more.
+    // When no linter completed the lint term is unknown rather than perfect, so craft cannot exceed 70.
+    const lintMeasured = metrics.lintIssues >= 0;
+    const lintIssuesPerKloc = lintMeasured && metrics.totalLoc > 0
+        ? (metrics.lintErrors + metrics.lintWarnings * 0.5) / (metrics.totalLoc / 1000)
+        : 0;
+    const complexityPenalty = metrics.avgComplexity !== null ? Math.min(metrics.avgComplexity / 10, 1) * 20 : 0;
+    const craft = clamp(Math.round(100 - lintIssuesPerKloc * 2 - complexityPenalty), 0, lintMeasured ? 100 : 70);
 
-    // Reliability (15%) - placeholder
-    const reliability = 70;
+    // Reliability (15%) - detected tests and CI, blended with line coverage when known; without tests this tops out at 70
+    const reliabilityInputs = {
+        tests: metrics.hasTests,
+        ci: metrics.hasCI,
+        coverage: metrics.coverage,
+        lineCoverage: metrics.lineCoverage,
+    };
+    const practices = 40 + (metrics.hasTests ? 30 : 0) + (metrics.hasCI ? 30 : 0);
+    const reliability = metrics.lineCoverage !== null
+        ? clamp(Math.round(practices * 0.7 + metrics.lineCoverage * 0.3), 0, metrics.hasTests ? 100 : 70)
+        : practices;
 
     // Documentation (15%) - directly from readmeScore
     const documentation = metrics.readmeScore;
 
-    // Security (15%) - based on vulnerabilities
-    const security = clamp(100 - metrics.vulnCount * 10, 0, 100);
+    // Security (15%) - severity-weighted vulnerabilities per KLOC (0.5 or more costs the full 60), less 10 per leaked
+    // secret (at most 30); secretsFound already excludes allowlisted ones.
+    // When no dependency audit ran the vulnerability term is unknown rather than perfect, so security cannot exceed 70.
+    const vulnsMeasured = metrics.vulnCount >= 0;
+    const weightedVulns = VULNERABILITY_SEVERITIES.reduce((acc, severity) => acc + metrics.vulnSeverities[severity] * SEVERITY_WEIGHTS[severity], 0);
+    const vulnsPerKloc = weightedVulns / Math.max(metrics.totalLoc / 1000, 1);
+    const vulnPenalty = Math.min(vulnsPerKloc / 0.5, 1) * 60;
+    const secretPenalty = Math.min(metrics.secretsFound, 3) * 10;
+    const security = clamp(Math.round(100 - vulnPenalty - secretPenalty), 0, vulnsMeasured ? 100 : 70);
 
-    // Impact (20%) - placeholder
-    const impact = 75;
+    // Impact (20%) - log-scaled reach: stars, forks, merged pull requests and commit activity
+    const reach = metrics.stars
+        + metrics.forks * 2
+        + (metrics.pullRequests?.merged || 0)
+        + (metrics.commitQuality?.commits || 0) / 10;
+    const impact = clamp(Math.round(25 * Math.log10(1 + reach)), 0, 100);
 
-    // Collaboration (10%) - placeholder
-    const collaboration = 80;
+    // Collaboration (10%) - average of whichever signals are available; neutral without any
+    const collaborationInputs = {
+        busFactor: metrics.busFactor !== null ? clamp(40 + (metrics.busFactor - 1) * 15, 0, 100) : null,
+        commitMessages: metrics.commitQuality ? this.commitMessageScore(metrics.commitQuality) : null,
+        reviews: metrics.pullRequests && metrics.pullRequests.sampled > 0 ? this.reviewScore(metrics.pullRequests) : null,
+    };
+    const signals = Object.values(collaborationInputs).filter((value): value is number => value !== null);
+    const collaboration = signals.length > 0
+        ? Math.round(signals.reduce((acc, value) => acc + value, 0) / signals.length)
+        : 50;
 
     const overall = Math.round(
         craft * 0.25 +
@@ -44,10 +86,37 @@ export class ScoringService {
         security,
         impact,
         collaboration,
-        details: { ...metrics, lintIssuesPerKloc }
+        details: {
+            ...metrics,
+            lintMeasured,
+            lintIssuesPerKloc,
+            complexityPenalty,
+            vulnsMeasured,
+            weightedVulns,
+            vulnsPerKloc,
+            vulnPenalty,
+            secretPenalty,
+            reach,
+            reliabilityInputs,
+            collaborationInputs,
+        }
     };
 
     console.log('Scores calculated:', scores);
     return scores;
   }
+
+  // Half conventional-commit compliance, half descriptive messages (50+ characters), minus fixup/WIP noise.
+  private commitMessageScore(quality: CommitQuality): number {
+    const descriptive = Math.min(quality.avgMessageLength / 50, 1);
+    const noise = quality.fixupRatio + quality.wipRatio;
+    return Math.round(Math.max(0, Math.min(100, (quality.conventionalRate * 50 + descriptive * 50) * (1 - noise))));
+  }
+
+  // Two reviews or comments per pull request and 200-character descriptions earn full marks.
+  private reviewScore(activity: PullRequestActivity): number {
+    const reviewsPerPull = (activity.reviews + activity.reviewComments + activity.comments) / activity.sampled;
+    const descriptions = Math.min(activity.avgDescriptionLength / 200, 1);
+    return Math.round(Math.min(reviewsPerPull / 2, 1) * 70 + descriptions * 30);
+  }
 }
@@ -0,0 +1,110 @@
+import { SecretType } from 'types';
+
+export interface SecretMatch {
+  type: SecretType;
+  secret: string;
+  offset: number; // of the secret within the scanned text
+}
+
+// The first capture group is the secret; anything around it only anchors the match.
+const DETECTORS: { type: SecretType; pattern: RegExp }[] = [
+  { type: 'aws-access-key', pattern: /\b((?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16})\b/g },
+  {
+    type: 'aws-secret-key',
+    pattern: /aws.{0,20}?(?:secret|private).{0,20}?['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+  },
+  { type: 'gcp-api-key', pattern: /\b(AIza[0-9A-Za-z_-]{35})(?![0-9A-Za-z_-])/g },
+  { type: 'gcp-service-account', pattern: /"private_key_id"\s*:\s*"([0-9a-f]{40})"/g },
+  { type: 'github-token', pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{82})\b/g },
+  { type: 'slack-webhook', pattern: /(https:\/\/hooks\.slack\.com\/(?:services|workflows)\/[A-Za-z0-9+/_-]{20,})/g },
+  { type: 'slack-token', pattern: /\b(xox[abposr]-[0-9A-Za-z-]{10,})\b/g },
+  // PEM blocks, also when written into a string with escaped newlines; a bare header is not a key.
+  {
+    type: 'private-key',
+    pattern: /(-----BEGIN [A-Z ]*PRIVATE KEY(?: BLOCK)?-----(?:[A-Za-z0-9+/=\s:,-]|\\[nr]){64,}?-----END [A-Z ]*PRIVATE KEY(?: BLOCK)?-----)/g,
+  },
+];
+
+// String literals and the right-hand side of assignments; bare words in prose or code are not candidates.
+const ENTROPY_CANDIDATES = [
+  /['"`]([A-Za-z0-9+/=_-]{33,})['"`]/g,
+  /[=:]\s*([A-Za-z0-9+/=_-]{33,})\s*$/gm,
+];
+const HEX = /^[0-9a-fA-F]+$/;
+// Bits per character above which a string is treated as random rather than a word, path or identifier.
+const BASE64_ENTROPY = 4.5;
+const HEX_ENTROPY = 3.0;
+// Commit SHAs and SHA-1, SHA-256 and SHA-512 digests are random-looking hex of exactly these lengths.
+const HASH_HEX_LENGTHS = [40, 64, 128];
+// A key like this earlier on the line labels the value as a checksum, digest or commit rather than a credential.
+const HASH_CONTEXT = /sha-?(?:1|256|384|512)|md5|digest|integrity|checksum|hash|commit/i;
+
+/**
+ * Every secret in `content`: the denylist patterns of README Appendix C
+ * first, then high-entropy base64 and hex strings longer than 32 characters
+ * that no pattern already claimed. Documentation placeholders and values that
+ * look like hashes (see isHash) are skipped.
+ */
+export function detectSecrets(content: string): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+  for (const { type, pattern } of DETECTORS) {
+    for (const match of content.matchAll(pattern)) {
+      const secret = match[1];
+      // Key material legitimately has long runs (OpenSSH keys are full of "AAAA").
+      if (type === 'private-key' || !isPlaceholder(secret)) {
+        matches.push({ type, secret, offset: match.index! + match[0].indexOf(secret) });
+      }
+    }
+  }
+
+  const claimed = (offset: number) => matches.some(match => offset >= match.offset && offset < match.offset + match.secret.length);
+  for (const pattern of ENTROPY_CANDIDATES) {
+    for (const match of content.matchAll(pattern)) {
+      const secret = match[1];
+      const offset = match.index! + match[0].indexOf(secret);
+      const hex = HEX.test(secret);
+      if (claimed(offset) || isPlaceholder(secret) || isHash(content, offset, secret, hex)) {
+        continue;
+      }
+      if (shannonEntropy(secret) > (hex ? HEX_ENTROPY : BASE64_ENTROPY)) {
+        matches.push({ type: hex ? 'high-entropy-hex' : 'high-entropy-base64', secret, offset });
+      }
+    }
+  }
+  return matches.sort((a, b) => a.offset - b.offset);
+}
+
+// A masked preview that identifies the kind of credential without revealing it.
+export function redactSecret(secret: string): string {
+  const privateKey = /^-----BEGIN [A-Z ]*PRIVATE KEY(?: BLOCK)?-----/.exec(secret);
+  if (privateKey) {
+    return `${privateKey[0]}…`;
+  }
+  return secret.length >= 16 ? `${secret.slice(0, 4)}… (${secret.length} chars)` : `… (${secret.length} chars)`;
+}
+
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// Hex of a digest's exact length, a subresource integrity value (`sha512-…`), or anything labelled as a hash on its line.
+function isHash(content: string, offset: number, secret: string, hex: boolean): boolean {
+  if ((hex && HASH_HEX_LENGTHS.includes(secret.length)) || /^sha(?:256|384|512)-/.test(secret)) {
+    return true;
+  }
+  return HASH_CONTEXT.test(content.slice(content.lastIndexOf('\n', offset) + 1, offset));
+}
+
+// AWS's documented sample keys and runs like "xxxxxxxx" mark examples, not credentials.
+function isPlaceholder(secret: string): boolean {
+  return /EXAMPLE/.test(secret) || /(.)\1{7,}/.test(secret);
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ToolsModule } from '../tools/tools.module';
+import { SecretsService } from './secrets.service';
+
+@Module({
+  imports: [ToolsModule],
+  providers: [SecretsService],
+  exports: [SecretsService],
+})
+export class SecretsModule {}
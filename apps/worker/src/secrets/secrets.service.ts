@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SecretFinding, SecretScan, SecretType } from 'types';
+import { ensureCompleted, ToolContext, ToolRunner } from '../tools/tool-runner.service';
+import { detectSecrets, redactSecret } from './secret-detectors';
+
+// Larger files are data dumps or bundles; a credential in one would also be in the source that produced it.
+const MAX_FILE_BYTES = 1024 * 1024;
+
+@Injectable()
+export class SecretsService {
+  constructor(private readonly tools: ToolRunner) {}
+
+  /**
+   * Scans the tracked files and, with `includeHistory`, every line added in
+   * the cloned history window. A secret found in both is reported once, at
+   * its place in the tree; one that only survives in history carries the
+   * commit that added it. Paths in `excluded` (files, or directories with a
+   * trailing slash) are skipped in history as they are in the tree.
+   */
+  async scan(repoPath: string, files: string[], excluded: string[], includeHistory: boolean, context?: ToolContext): Promise<SecretScan> {
+    const findings = new Map<string, SecretFinding>();
+    const record = (finding: SecretFinding) => {
+      if (!findings.has(finding.fingerprint)) {
+        findings.set(finding.fingerprint, finding);
+      }
+    };
+
+    for (const file of files) {
+      const content = await readText(repoPath, file);
+      if (content === null) {
+        continue;
+      }
+      for (const match of detectSecrets(content)) {
+        record(toFinding(match.type, match.secret, file, lineAt(content, match.offset), null));
+      }
+    }
+
+    let commitsScanned: number | null = null;
+    if (includeHistory) {
+      const isExcluded = (file: string) => excluded.some(entry => (entry.endsWith('/') ? file.startsWith(entry) : file === entry));
+      const commits = await this.readAddedLines(repoPath, context);
+      for (const commit of commits) {
+        for (const [file, added] of commit.files) {
+          if (isExcluded(file)) {
+            continue;
+          }
+          const content = added.map(line => line.text).join('\n');
+          for (const match of detectSecrets(content)) {
+            record(toFinding(match.type, match.secret, file, added[lineAt(content, match.offset) - 1].line, commit.sha));
+          }
+        }
+      }
+      commitsScanned = commits.length;
+    }
+
+    const result = Array.from(findings.values());
+    console.log(`Secret scan: ${result.length} findings in ${files.length} files${commitsScanned !== null ? ` and ${commitsScanned} commits` : ''}`);
+    return { findings: result, filesScanned: files.length, commitsScanned };
+  }
+
+  // Added lines per commit and file, oldest commit first, with their line numbers in the new revision.
+  private async readAddedLines(repoPath: string, context?: ToolContext): Promise<AddedLines[]> {
+    const result = await this.tools.run('git', [
+      '-c', 'core.quotepath=false',
+      'log',
+      '--reverse',
+      '--no-merges',
+      '--no-renames',
+      '--no-color',
+      '--no-ext-diff',
+      '--unified=0',
+      '--patch',
+      '--format=%x1e%H',
+    ], { cwd: repoPath, context });
+
+    let records = result.stdout.split('\x1e').slice(1);
+    if (result.stdoutTruncated) {
+      // The last record is cut off mid-patch; everything before it is complete.
+      console.warn('Commit history exceeds the output limit; only the oldest commits were scanned for secrets.');
+      records = records.slice(0, -1);
+    } else {
+      ensureCompleted(result);
+    }
+    return records.map(parseCommitPatch);
+  }
+}
+
+interface AddedLines {
+  sha: string;
+  files: Map<string, { line: number; text: string }[]>;
+}
+
+function parseCommitPatch(record: string): AddedLines {
+  const [sha, ...lines] = record.split('\n');
+  const files = new Map<string, { line: number; text: string }[]>();
+  let current: { line: number; text: string }[] | null = null;
+  let next = 0;
+
+  for (const line of lines) {
+    if (line.startsWith('diff --git ')) {
+      current = null;
+    } else if (line.startsWith('+++ ')) {
+      // Deleted files have no new side; `+++ b/path` otherwise.
+      const target = line.slice(4);
+      current = target === '/dev/null' ? null : [];
+      if (current) {
+        files.set(target.replace(/^b\//, ''), current);
+      }
+    } else if (line.startsWith('@@ ')) {
+      next = Number(/\+(\d+)/.exec(line)?.[1] || 0);
+    } else if (current && line.startsWith('+')) {
+      current.push({ line: next, text: line.slice(1) });
+      next++;
+    }
+  }
+  return { sha: sha.trim(), files };
+}
+
+// The secret goes into the hash only, so the same key in the same file is recognized across runs and commits.
+function toFinding(type: SecretType, secret: string, file: string, line: number, commitSha: string | null): SecretFinding {
+  return {
+    type,
+    path: file,
+    line,
+    commitSha,
+    redacted: redactSecret(secret),
+    fingerprint: createHash('sha256').update([type, file, secret].join('\0')).digest('hex').slice(0, 32),
+  };
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let index = content.indexOf('\n'); index !== -1 && index < offset; index = content.indexOf('\n', index + 1)) {
+    line++;
+  }
+  return line;
+}
+
+// Skips files that are too large or binary (a NUL byte in the first 8 KB, as git decides).
+async function readText(repoPath: string, file: string): Promise<string | null> {
+  try {
+    const fullPath = path.join(repoPath, file);
+    const stats = await fs.stat(fullPath);
+    if (!stats.isFile() || stats.size > MAX_FILE_BYTES) {
+      return null;
+    }
+    const buffer = await fs.readFile(fullPath);
+    if (buffer.subarray(0, 8000).includes(0)) {
+      return null;
+    }
+    return buffer.toString('utf-8');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,64 @@
+import { VulnerabilitySeverity } from 'types';
+
+// Metric weights from the CVSS v3.1 specification, section 7.4.
+const ATTACK_VECTOR: Record<string, number> = { N: 0.85, A: 0.62, L: 0.55, P: 0.2 };
+const ATTACK_COMPLEXITY: Record<string, number> = { L: 0.77, H: 0.44 };
+const PRIVILEGES_REQUIRED: Record<string, number> = { N: 0.85, L: 0.62, H: 0.27 };
+const PRIVILEGES_REQUIRED_CHANGED: Record<string, number> = { N: 0.85, L: 0.68, H: 0.5 };
+const USER_INTERACTION: Record<string, number> = { N: 0.85, R: 0.62 };
+const IMPACT: Record<string, number> = { H: 0.56, L: 0.22, N: 0 };
+
+/**
+ * Base score of a CVSS v3.0 or v3.1 vector such as
+ * `CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H`, or null when the vector is
+ * not v3 or lacks a base metric.
+ */
+export function cvssV3BaseScore(vector: string): number | null {
+  const [version, ...parts] = vector.trim().split('/');
+  if (!/^CVSS:3\.[01]$/.test(version)) {
+    return null;
+  }
+  const metrics = new Map(parts.map(part => part.split(':') as [string, string]));
+  const changed = metrics.get('S') === 'C';
+  const weights = [
+    ATTACK_VECTOR[metrics.get('AV')!],
+    ATTACK_COMPLEXITY[metrics.get('AC')!],
+    (changed ? PRIVILEGES_REQUIRED_CHANGED : PRIVILEGES_REQUIRED)[metrics.get('PR')!],
+    USER_INTERACTION[metrics.get('UI')!],
+    IMPACT[metrics.get('C')!],
+    IMPACT[metrics.get('I')!],
+    IMPACT[metrics.get('A')!],
+  ];
+  if (weights.some(weight => weight === undefined) || !['U', 'C'].includes(metrics.get('S')!)) {
+    return null;
+  }
+
+  const [attackVector, attackComplexity, privileges, interaction, confidentiality, integrity, availability] = weights;
+  const iss = 1 - (1 - confidentiality) * (1 - integrity) * (1 - availability);
+  const impact = changed ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15) : 6.42 * iss;
+  const exploitability = 8.22 * attackVector * attackComplexity * privileges * interaction;
+  if (impact <= 0) {
+    return 0;
+  }
+  return roundUp(Math.min((changed ? 1.08 : 1) * (impact + exploitability), 10));
+}
+
+// The qualitative rating scale of CVSS v3, with null for its None rating (0.0): no impact at all.
+export function severityOfScore(score: number): VulnerabilitySeverity | null {
+  if (score === 0) {
+    return null;
+  }
+  if (score >= 9) {
+    return 'critical';
+  }
+  if (score >= 7) {
+    return 'high';
+  }
+  return score >= 4 ? 'medium' : 'low';
+}
+
+// Roundup as defined in CVSS v3.1 Appendix A, which avoids floating point artifacts such as 4.000001 -> 4.1.
+function roundUp(value: number): number {
+  const scaled = Math.round(value * 100000);
+  return scaled % 10000 === 0 ? scaled / 100000 : (Math.floor(scaled / 10000) + 1) / 10;
+}
@@ -0,0 +1,324 @@
+import { LockedPackage } from 'types';
+import { isLockfile, manifestFor, mergePackage, parseLockfile } from './lockfiles';
+
+// `sha512-YWJj` is the Subresource Integrity form of the bytes "abc".
+const INTEGRITY = 'sha512-YWJj';
+const INTEGRITY_HEX = '616263';
+
+function byName(packages: LockedPackage[]): Record<string, LockedPackage> {
+  return Object.fromEntries(packages.map(entry => [`${entry.name}@${entry.version}`, entry]));
+}
+
+describe('isLockfile and manifestFor', () => {
+  it('recognizes lockfiles by name in any directory', () => {
+    expect(isLockfile('services/api/poetry.lock')).toBe(true);
+    expect(isLockfile('package.json')).toBe(false);
+  });
+
+  it('names the manifest beside the lockfile', () => {
+    expect(manifestFor('web/package-lock.json')).toBe('web/package.json');
+    expect(manifestFor('go.sum')).toBe('go.mod');
+    expect(manifestFor('pnpm-lock.yaml')).toBeNull();
+  });
+});
+
+describe('parseLockfile', () => {
+  it('reads package-lock.json v3 install locations', () => {
+    const lock = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', dependencies: { lodash: '^4.17.0' }, devDependencies: { jest: '^29.0.0' } },
+        'node_modules/lodash': { version: '4.17.20', integrity: INTEGRITY, license: 'MIT' },
+        'node_modules/jest': { version: '29.7.0' },
+        'node_modules/jest/node_modules/lodash': { version: '4.17.21' },
+        'node_modules/ms': { version: '2.1.3' },
+        'node_modules/local': { version: '1.0.0', resolved: 'file:../local' },
+        'node_modules/linked': { link: true },
+        'node_modules/aliased': { name: 'real-name', version: '1.2.3' },
+      },
+    });
+    const packages = byName(parseLockfile('package-lock.json', lock));
+
+    expect(Object.keys(packages).sort()).toEqual(['jest@29.7.0', 'lodash@4.17.20', 'lodash@4.17.21', 'ms@2.1.3', 'real-name@1.2.3']);
+    expect(packages['lodash@4.17.20']).toEqual({
+      ecosystem: 'npm',
+      name: 'lodash',
+      version: '4.17.20',
+      lockfile: 'package-lock.json',
+      direct: true,
+      license: 'MIT',
+      hashes: [{ algorithm: 'SHA-512', value: INTEGRITY_HEX }],
+    });
+    expect(packages['jest@29.7.0'].direct).toBe(true);
+    expect(packages['lodash@4.17.21'].direct).toBe(false);
+    expect(packages['ms@2.1.3'].direct).toBe(false);
+  });
+
+  it('reads package-lock.json v1 nested dependencies against the manifest', () => {
+    const lock = JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: {
+        express: { version: '4.18.2', dependencies: { qs: { version: '6.11.0' } } },
+        qs: { version: '6.5.0' },
+        mine: { version: 'github:me/mine' },
+      },
+    });
+    const manifest = JSON.stringify({ dependencies: { express: '^4.18.0' } });
+
+    const withManifest = byName(parseLockfile('package-lock.json', lock, manifest));
+    expect(Object.keys(withManifest).sort()).toEqual(['express@4.18.2', 'qs@6.11.0', 'qs@6.5.0']);
+    expect(withManifest['express@4.18.2'].direct).toBe(true);
+    expect(withManifest['qs@6.5.0'].direct).toBe(false);
+
+    const withoutManifest = parseLockfile('package-lock.json', lock);
+    expect(withoutManifest.every(entry => entry.direct === null)).toBe(true);
+  });
+
+  it('reads pnpm-lock.yaml v6 keys and importers', () => {
+    const lock = [
+      "lockfileVersion: '6.0'",
+      'importers:',
+      '  .:',
+      '    dependencies:',
+      '      react:',
+      '        specifier: ^18.2.0',
+      '        version: 18.2.0',
+      'packages:',
+      '  /react@18.2.0:',
+      `    resolution: {integrity: ${INTEGRITY}}`,
+      '    dependencies:',
+      '      loose-envify: 1.4.0',
+      '  /@babel/runtime@7.23.0(react@18.2.0):',
+      '    resolution: {integrity: sha512-AAAA}',
+      '  /loose-envify@1.4.0:',
+      '    resolution: {integrity: sha512-AAAA}',
+    ].join('\n');
+    const packages = byName(parseLockfile('pnpm-lock.yaml', lock));
+
+    expect(Object.keys(packages).sort()).toEqual(['@babel/runtime@7.23.0', 'loose-envify@1.4.0', 'react@18.2.0']);
+    expect(packages['react@18.2.0'].direct).toBe(true);
+    expect(packages['react@18.2.0'].hashes).toEqual([{ algorithm: 'SHA-512', value: INTEGRITY_HEX }]);
+    expect(packages['loose-envify@1.4.0'].direct).toBe(false);
+  });
+
+  it('reads pnpm-lock.yaml v5 and v9 keys', () => {
+    const v5 = ['lockfileVersion: 5.4', 'dependencies:', '  ms: 2.1.3', 'packages:', '  /ms/2.1.3:', '    dev: false', '  /debug/4.3.4_supports-color@8.1.1:', '    dev: false'].join('\n');
+    expect(byName(parseLockfile('pnpm-lock.yaml', v5))).toMatchObject({
+      'ms@2.1.3': { direct: true },
+      'debug@4.3.4': { direct: false },
+    });
+
+    const v9 = ["lockfileVersion: '9.0'", 'packages:', "  '@types/node@20.11.28':", `    resolution: {integrity: ${INTEGRITY}}`].join('\n');
+    expect(Object.keys(byName(parseLockfile('pnpm-lock.yaml', v9)))).toEqual(['@types/node@20.11.28']);
+  });
+
+  it('reads classic yarn.lock entries and skips local ones', () => {
+    const lock = [
+      '# yarn lockfile v1',
+      '',
+      '"@scope/pkg@^1.0.0", "@scope/pkg@^1.1.0":',
+      '  version "1.2.0"',
+      '  resolved "https://registry.yarnpkg.com/@scope/pkg/-/pkg-1.2.0.tgz"',
+      `  integrity ${INTEGRITY}`,
+      '',
+      'left-pad@^1.3.0:',
+      '  version "1.3.0"',
+      '',
+      'mine@file:../mine:',
+      '  version "0.0.1"',
+    ].join('\n');
+    const packages = byName(parseLockfile('yarn.lock', lock, JSON.stringify({ dependencies: { '@scope/pkg': '^1.0.0' } })));
+
+    expect(Object.keys(packages).sort()).toEqual(['@scope/pkg@1.2.0', 'left-pad@1.3.0']);
+    expect(packages['@scope/pkg@1.2.0'].direct).toBe(true);
+    expect(packages['@scope/pkg@1.2.0'].hashes).toEqual([{ algorithm: 'SHA-512', value: INTEGRITY_HEX }]);
+    expect(packages['left-pad@1.3.0'].direct).toBe(false);
+  });
+
+  it('reads Berry yarn.lock entries without keeping their cache checksum', () => {
+    const lock = [
+      '__metadata:',
+      '  version: 6',
+      '',
+      '"typescript@npm:^5.4.2":',
+      '  version: 5.4.2',
+      '  checksum: 96d80fde25a09bcb04d399082fb27a808a9e17c2111e43849d2aafbd642d835e4f4ef0de09b0ba795ec2a700be6c4c2c3f62bf4660c05404c948727b5bbfb32a',
+      '',
+      '"app@workspace:.":',
+      '  version: 0.0.0-use.local',
+    ].join('\n');
+    const packages = parseLockfile('yarn.lock', lock);
+
+    expect(packages).toHaveLength(1);
+    expect(packages[0]).toMatchObject({ name: 'typescript', version: '5.4.2', direct: null, hashes: [] });
+  });
+
+  it('reads poetry.lock packages, files hashes and pyproject dependencies', () => {
+    const lock = [
+      '[[package]]',
+      'name = "Requests"',
+      'version = "2.31.0"',
+      'files = [',
+      '    {file = "requests-2.31.0.tar.gz", hash = "sha256:ABCDEF"},',
+      ']',
+      '',
+      '[[package]]',
+      'name = "idna"',
+      'version = "3.6"',
+      '',
+      '[[package]]',
+      'name = "mylib"',
+      'version = "0.1.0"',
+      '',
+      '[package.source]',
+      'type = "directory"',
+      'url = "../mylib"',
+    ].join('\n');
+    const manifest = ['[tool.poetry.dependencies]', 'python = "^3.11"', 'requests = "^2.31"'].join('\n');
+    const packages = byName(parseLockfile('poetry.lock', lock, manifest));
+
+    expect(Object.keys(packages).sort()).toEqual(['Requests@2.31.0', 'idna@3.6']);
+    expect(packages['Requests@2.31.0']).toMatchObject({ ecosystem: 'PyPI', direct: true, hashes: [{ algorithm: 'SHA-256', value: 'abcdef' }] });
+    expect(packages['idna@3.6'].direct).toBe(false);
+  });
+
+  it('reads older poetry.lock hashes from [metadata.files]', () => {
+    const lock = [
+      '[[package]]',
+      'name = "six"',
+      'version = "1.16.0"',
+      '',
+      '[metadata.files]',
+      'six = [',
+      '    {file = "six-1.16.0.tar.gz", hash = "sha256:1e61c374"},',
+      ']',
+    ].join('\n');
+
+    expect(parseLockfile('poetry.lock', lock)[0].hashes).toEqual([{ algorithm: 'SHA-256', value: '1e61c374' }]);
+  });
+
+  it('matches PEP 621 dependencies with normalized names', () => {
+    const lock = ['[[package]]', 'name = "typing_extensions"', 'version = "4.9.0"'].join('\n');
+    const manifest = ['[project]', 'dependencies = [', '  "Typing-Extensions>=4",', ']'].join('\n');
+
+    expect(parseLockfile('poetry.lock', lock, manifest)[0].direct).toBe(true);
+  });
+
+  it('reads pinned Pipfile.lock entries against the Pipfile', () => {
+    const lock = JSON.stringify({
+      _meta: { hash: { sha256: 'x' } },
+      default: { django: { version: '==4.2.7', hashes: ['sha256:8e0f1c2d'] }, sqlparse: { version: '==0.4.4' } },
+      develop: { pytest: { version: '==7.4.3' }, local: { path: '.' } },
+    });
+    const manifest = ['[packages]', 'django = "*"', '', '[dev-packages]', 'pytest = "*"'].join('\n');
+    const packages = byName(parseLockfile('Pipfile.lock', lock, manifest));
+
+    expect(Object.keys(packages).sort()).toEqual(['django@4.2.7', 'pytest@7.4.3', 'sqlparse@0.4.4']);
+    expect(packages['django@4.2.7'].hashes).toEqual([{ algorithm: 'SHA-256', value: '8e0f1c2d' }]);
+    expect(packages['pytest@7.4.3'].direct).toBe(true);
+    expect(packages['sqlparse@0.4.4'].direct).toBe(false);
+  });
+
+  it('reads go.sum modules, skipping go.mod-only lines', () => {
+    const sum = [
+      'github.com/gin-gonic/gin v1.9.1 h1:4idEAncQnU5cB7BeOkPtxjfCSye0AAm1R0RVIqJ+Jmg=',
+      'github.com/gin-gonic/gin v1.9.1/go.mod h1:hPrL7YrpYKXt5YId3A/Tnip5kqbEAP+KLuI3SUcPTeU=',
+      'github.com/docker/docker v20.10.7+incompatible h1:Z6O9Nhsjv+ayUEeI1IojKbYcsGdgYSNqxe1s2MYzUhQ=',
+      'golang.org/x/net v0.17.0/go.mod h1:NxSsAGuq816PNPmqtQdLE42eU2Fs7NoRIZrHJAlaCOE=',
+    ].join('\n');
+    const manifest = ['module example.com/app', '', 'require (', '\tgithub.com/gin-gonic/gin v1.9.1', '\tgithub.com/docker/docker v20.10.7+incompatible // indirect', ')'].join('\n');
+    const packages = byName(parseLockfile('go.sum', sum, manifest));
+
+    expect(Object.keys(packages).sort()).toEqual(['github.com/docker/docker@20.10.7', 'github.com/gin-gonic/gin@1.9.1']);
+    expect(packages['github.com/gin-gonic/gin@1.9.1']).toMatchObject({ ecosystem: 'Go', direct: true, hashes: [] });
+    expect(packages['github.com/docker/docker@20.10.7'].direct).toBe(false);
+  });
+
+  it('reads registry crates from Cargo.lock, direct when a local crate depends on them', () => {
+    const lock = [
+      'version = 3',
+      '',
+      '[[package]]',
+      'name = "app"',
+      'version = "0.1.0"',
+      'dependencies = [',
+      ' "serde",',
+      ']',
+      '',
+      '[[package]]',
+      'name = "serde"',
+      'version = "1.0.193"',
+      'source = "registry+https://github.com/rust-lang/crates.io-index"',
+      'checksum = "25DD9975E68D0CB5AA1120C288333FC98731BD1DD12F561E468EA4728C042B89"',
+      'dependencies = ["serde_derive"]',
+      '',
+      '[[package]]',
+      'name = "serde_derive"',
+      'version = "1.0.193"',
+      'source = "registry+https://github.com/rust-lang/crates.io-index"',
+      '',
+      '[[package]]',
+      'name = "forked"',
+      'version = "0.2.0"',
+      'source = "git+https://github.com/me/forked#abc"',
+    ].join('\n');
+    const packages = byName(parseLockfile('Cargo.lock', lock));
+
+    expect(Object.keys(packages).sort()).toEqual(['serde@1.0.193', 'serde_derive@1.0.193']);
+    expect(packages['serde@1.0.193']).toMatchObject({
+      ecosystem: 'crates.io',
+      direct: true,
+      hashes: [{ algorithm: 'SHA-256', value: '25dd9975e68d0cb5aa1120c288333fc98731bd1dd12f561e468ea4728c042b89' }],
+    });
+    expect(packages['serde_derive@1.0.193'].direct).toBe(false);
+  });
+
+  it('merges repeated sightings of one version, keeping direct and every hash', () => {
+    const lock = JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: {
+        a: { version: '1.0.0', dependencies: { ms: { version: '2.1.3', integrity: INTEGRITY } } },
+        ms: { version: '2.1.3', integrity: 'sha1-AAAA' },
+      },
+    });
+    const packages = parseLockfile('package-lock.json', lock, JSON.stringify({ dependencies: { a: '1', ms: '2' } }));
+    const ms = packages.find(entry => entry.name === 'ms')!;
+
+    expect(packages.filter(entry => entry.name === 'ms')).toHaveLength(1);
+    expect(ms.direct).toBe(true);
+    expect(ms.hashes).toEqual([
+      { algorithm: 'SHA-512', value: INTEGRITY_HEX },
+      { algorithm: 'SHA-1', value: '000000' },
+    ]);
+  });
+});
+
+describe('mergePackage', () => {
+  it.each([
+    [true, null, true],
+    [false, true, true],
+    [false, null, null],
+    [null, false, null],
+    [false, false, false],
+  ])('merges direct %p with %p into %p', (first, second, expected) => {
+    const existing: LockedPackage = { ecosystem: 'npm', name: 'ms', version: '2.1.3', lockfile: 'a/package-lock.json', direct: first, license: null, hashes: [] };
+    mergePackage(existing, { ...existing, direct: second });
+
+    expect(existing.direct).toBe(expected);
+  });
+
+  it('keeps the first license and skips hashes already known', () => {
+    const existing: LockedPackage = {
+      ecosystem: 'npm',
+      name: 'ms',
+      version: '2.1.3',
+      lockfile: 'package-lock.json',
+      direct: false,
+      license: null,
+      hashes: [{ algorithm: 'SHA-512', value: 'aa' }],
+    };
+    mergePackage(existing, { ...existing, direct: null, license: 'MIT', hashes: [{ algorithm: 'SHA-512', value: 'aa' }, { algorithm: 'SHA-1', value: 'bb' }] });
+
+    expect(existing).toMatchObject({ license: 'MIT', hashes: [{ algorithm: 'SHA-512', value: 'aa' }, { algorithm: 'SHA-1', value: 'bb' }] });
+  });
+});
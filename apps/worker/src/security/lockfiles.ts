@@ -0,0 +1,456 @@
+import * as path from 'path';
+import { HashAlgorithm, LockedPackage, OsvEcosystem, PackageHash } from 'types';
+
+type Parsed = Omit<LockedPackage, 'lockfile'>;
+
+// Lockfile names and their parsers; every parser reads text only, nothing in the repository is executed.
+const PARSERS: Record<string, (content: string, manifest: string | null) => Parsed[]> = {
+  'package-lock.json': parsePackageLock,
+  'npm-shrinkwrap.json': parsePackageLock,
+  'pnpm-lock.yaml': parsePnpmLock,
+  'yarn.lock': parseYarnLock,
+  'poetry.lock': parsePoetryLock,
+  'Pipfile.lock': parsePipfileLock,
+  'go.sum': parseGoSum,
+  'Cargo.lock': parseCargoLock,
+};
+
+// The manifest beside a lockfile that says which packages the project declares itself, where the lockfile does not.
+const MANIFESTS: Record<string, string> = {
+  'package-lock.json': 'package.json',
+  'npm-shrinkwrap.json': 'package.json',
+  'yarn.lock': 'package.json',
+  'poetry.lock': 'pyproject.toml',
+  'Pipfile.lock': 'Pipfile',
+  'go.sum': 'go.mod',
+};
+
+export function isLockfile(file: string): boolean {
+  return path.posix.basename(file) in PARSERS;
+}
+
+export function manifestFor(lockfile: string): string | null {
+  const manifest = MANIFESTS[path.posix.basename(lockfile)];
+  return manifest ? path.posix.join(path.posix.dirname(lockfile), manifest) : null;
+}
+
+/**
+ * Registry packages pinned by one lockfile, deduplicated. Workspace, path,
+ * git and tarball dependencies are skipped: advisories are published
+ * against registry releases only. `manifest` is the content of the file
+ * `manifestFor` names, when there is one; without it, `direct` is null for
+ * lockfiles that do not record the project's own dependencies.
+ */
+export function parseLockfile(file: string, content: string, manifest: string | null = null): LockedPackage[] {
+  const packages = new Map<string, LockedPackage>();
+  for (const entry of PARSERS[path.posix.basename(file)](content, manifest)) {
+    const key = `${entry.ecosystem}:${entry.name}@${entry.version}`;
+    const existing = packages.get(key);
+    if (existing) {
+      // The same version can be installed both at the top level and nested under another package.
+      mergePackage(existing, entry);
+    } else if (entry.name && entry.version) {
+      packages.set(key, { ...entry, lockfile: file });
+    }
+  }
+  return Array.from(packages.values());
+}
+
+// Folds another sighting of the same package version into `existing`: direct anywhere counts as direct,
+// and otherwise one sighting that cannot tell leaves it unknown.
+export function mergePackage(existing: LockedPackage, entry: Parsed): void {
+  existing.direct = existing.direct || entry.direct || (existing.direct === null || entry.direct === null ? null : false);
+  existing.license = existing.license || entry.license;
+  for (const hash of entry.hashes) {
+    if (!existing.hashes.some(known => known.algorithm === hash.algorithm && known.value === hash.value)) {
+      existing.hashes.push(hash);
+    }
+  }
+}
+
+const HASH_ALGORITHMS: Record<string, HashAlgorithm> = { sha1: 'SHA-1', sha256: 'SHA-256', sha384: 'SHA-384', sha512: 'SHA-512' };
+
+// `sha256:<hex>` as Python lockfiles write digests, or `sha512-<base64>` Subresource Integrity as npm, pnpm and Yarn do.
+function parseHashes(specs: string[]): PackageHash[] {
+  const hashes: PackageHash[] = [];
+  for (const spec of specs.flatMap(value => value.trim().split(/\s+/))) {
+    const match = /^(sha1|sha256|sha384|sha512)([:-])(\S+)$/i.exec(spec);
+    const value = match && (match[2] === '-' ? Buffer.from(match[3], 'base64').toString('hex') : match[3].toLowerCase());
+    if (match && value && /^[0-9a-f]+$/.test(value)) {
+      hashes.push({ algorithm: HASH_ALGORITHMS[match[1].toLowerCase()], value });
+    }
+  }
+  return hashes;
+}
+
+const npm = (name: string, version: string, direct: boolean | null, integrity?: string, license?: unknown): Parsed => ({
+  ecosystem: 'npm',
+  name,
+  version,
+  direct,
+  license: typeof license === 'string' && license ? license : null,
+  hashes: integrity ? parseHashes([integrity]) : [],
+});
+
+// Registry releases have a plain version; aliases, git URLs and file: specs do not.
+const isRegistryVersion = (version: unknown): version is string => typeof version === 'string' && /^\d/.test(version);
+
+const NPM_DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'];
+
+function npmDependencyNames(manifest: Record<string, unknown>): string[] {
+  return NPM_DEPENDENCY_FIELDS.flatMap(field => Object.keys((manifest[field] as Record<string, string>) || {}));
+}
+
+function packageJsonNames(manifest: string | null): Set<string> | null {
+  if (!manifest) {
+    return null;
+  }
+  try {
+    return new Set(npmDependencyNames(JSON.parse(manifest)));
+  } catch {
+    return null;
+  }
+}
+
+interface PackageLockEntry {
+  name?: string;
+  version?: string;
+  resolved?: string;
+  integrity?: string;
+  license?: unknown;
+  link?: boolean;
+  dependencies?: Record<string, PackageLockEntry>;
+}
+
+// lockfileVersion 2 and 3 list every install location under `packages`; version 1 nests `dependencies`.
+function parsePackageLock(content: string, manifest: string | null): Parsed[] {
+  const lock = JSON.parse(content) as { packages?: Record<string, PackageLockEntry>; dependencies?: Record<string, PackageLockEntry> };
+  if (lock.packages) {
+    // The root and every workspace package are the entries outside node_modules; their dependencies are the direct ones.
+    const declared = new Set(Object.entries(lock.packages)
+      .filter(([location]) => !location.includes('node_modules/'))
+      .flatMap(([, entry]) => npmDependencyNames(entry as Record<string, unknown>)));
+    return Object.entries(lock.packages)
+      .filter(([location, entry]) => location.includes('node_modules/') && !entry.link && isRegistryVersion(entry.version))
+      .filter(([, entry]) => !entry.resolved || !/^(git\+|file:)/.test(entry.resolved))
+      .map(([location, entry]) => {
+        const installedAs = location.slice(location.lastIndexOf('node_modules/') + 'node_modules/'.length);
+        const direct = location === `node_modules/${installedAs}` && declared.has(installedAs);
+        return npm(entry.name || installedAs, entry.version!, direct, entry.integrity, entry.license);
+      });
+  }
+
+  const declared = packageJsonNames(manifest);
+  const packages: Parsed[] = [];
+  const visit = (dependencies: Record<string, PackageLockEntry> = {}, topLevel: boolean) => {
+    for (const [name, entry] of Object.entries(dependencies)) {
+      if (isRegistryVersion(entry.version)) {
+        packages.push(npm(name, entry.version, declared ? topLevel && declared.has(name) : null, entry.integrity));
+      }
+      visit(entry.dependencies, false);
+    }
+  };
+  visit(lock.dependencies, true);
+  return packages;
+}
+
+/**
+ * Read line by line: keys under `packages:` are `/name/1.0.0_peer` (v5),
+ * `/name@1.0.0(peer)` (v6) or `name@1.0.0` (v9). Direct dependencies are
+ * the keys under each importer's dependency maps, or under the top-level
+ * ones of a v5 lockfile for a single project. A package's `resolution`
+ * carries its integrity.
+ */
+function parsePnpmLock(content: string): Parsed[] {
+  const entries: { name: string; version: string; integrity?: string }[] = [];
+  let current: (typeof entries)[number] | null = null;
+  const declared = new Set<string>();
+  let section = '';
+  let group = '';
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\S/.test(line)) {
+      section = line.trim();
+      continue;
+    }
+    const integrity = /\bintegrity:\s*([^\s,}]+)/.exec(line);
+    if (section === 'packages:' && current && integrity) {
+      current.integrity = integrity[1];
+    }
+    const key = /^( +)(['"]?)([^\s'"][^'"]*?)\2:(?:\s|$)/.exec(line);
+    if (!key) {
+      continue;
+    }
+    const depth = key[1].length;
+    const name = key[3];
+    if (section === 'packages:' && depth === 2) {
+      const spec = name.replace(/^\//, '');
+      const match = /^((?:@[^/@]+\/)?[^/@]+)@(\d[^(]*)(?:\(.*)?$/.exec(spec) || /^((?:@[^/@]+\/)?[^/@]+)\/(\d[^_/]*)(?:_.*)?$/.exec(spec);
+      current = match ? { name: match[1], version: match[2] } : null;
+      if (current) {
+        entries.push(current);
+      }
+    } else if (section === 'importers:' && depth === 4) {
+      group = name;
+    } else if (section === 'importers:' && depth === 6 && /^(dev|optional)?[dD]ependencies$/.test(group)) {
+      declared.add(name);
+    } else if (/^(dev|optional)?[dD]ependencies:$/.test(section) && depth === 2) {
+      declared.add(name);
+    }
+  }
+  return entries.map(({ name, version, integrity }) => npm(name, version, declared.has(name), integrity));
+}
+
+/**
+ * Classic (v1) and Berry lockfiles: an unindented descriptor list, then an
+ * indented `version` line. Classic entries also carry the registry's
+ * integrity; Berry's `checksum` hashes Yarn's own cache archive instead, so
+ * it is not kept.
+ */
+function parseYarnLock(content: string, manifest: string | null): Parsed[] {
+  const declared = packageJsonNames(manifest);
+  const packages: Parsed[] = [];
+  let name: string | null = null;
+  let current: Parsed | null = null;
+  for (const line of content.split(/\r?\n/)) {
+    if (/^[^\s#]/.test(line) && line.trimEnd().endsWith(':')) {
+      current = null;
+      const descriptor = line.split(/,\s*/)[0].replace(/:\s*$/, '').replace(/^"|"$/g, '');
+      const separator = descriptor.indexOf('@', 1);
+      const range = descriptor.slice(separator + 1);
+      const local = /^(workspace|link|portal|file|git|github|https?):/.test(range) || range.includes('.git#');
+      name = separator > 0 && !local && descriptor !== '__metadata' ? descriptor.slice(0, separator) : null;
+      continue;
+    }
+    const integrity = /^\s+integrity\s+"?([^"\s]+)"?\s*$/.exec(line);
+    if (current && integrity) {
+      current.hashes = parseHashes([integrity[1]]);
+      continue;
+    }
+    const version = /^\s+version:?\s+"?([^"\s]+)"?\s*$/.exec(line);
+    if (name && version) {
+      if (isRegistryVersion(version[1])) {
+        current = npm(name, version[1], declared ? declared.has(name) : null);
+        packages.push(current);
+      }
+      name = null;
+    }
+  }
+  return packages;
+}
+
+interface TomlPackage {
+  fields: Record<string, string>;
+  dependencies: string[];
+  hashes: string[];
+}
+
+// Both are TOML lists of [[package]] tables; only the keys read here are parsed.
+function parseTomlPackages(content: string): TomlPackage[] {
+  const tables: TomlPackage[] = [];
+  let current: TomlPackage | null = null;
+  let table = '';
+  let inDependencies = false;
+  for (const line of content.split(/\r?\n/)) {
+    const header = /^\s*\[\[?([^\]]+)\]\]?\s*$/.exec(line);
+    if (header) {
+      table = header[1].trim();
+      inDependencies = false;
+      if (line.trim() === '[[package]]') {
+        current = { fields: {}, dependencies: [], hashes: [] };
+        tables.push(current);
+      } else if (!table.startsWith('package.')) {
+        current = null;
+      }
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    // Cargo.lock lists a crate's dependencies as `"name"` or `"name version (source)"` strings.
+    if (table === 'package' && (inDependencies || /^dependencies\s*=\s*\[/.test(line))) {
+      current.dependencies.push(...Array.from(line.matchAll(/"([^"\s]+)[^"]*"/g), match => match[1]));
+      inDependencies = !line.includes(']');
+      continue;
+    }
+    // Poetry 1.2+ lists each distribution file with its digest in the package's `files` array.
+    if (table === 'package') {
+      current.hashes.push(...Array.from(line.matchAll(/\bhash\s*=\s*"([^"]+)"/g), match => match[1]));
+    }
+    const pair = /^\s*([A-Za-z_-]+)\s*=\s*"([^"]*)"/.exec(line);
+    if (pair) {
+      // [package.source] keys are kept apart from the package's own.
+      current.fields[table === 'package' ? pair[1] : `${table.slice('package.'.length)}.${pair[1]}`] = pair[2];
+    }
+  }
+  return tables;
+}
+
+// Tables keyed by package name, in Pipfile and in Poetry's pyproject.toml.
+const KEYED_DEPENDENCY_TABLES = /^(packages|dev-packages|tool\.poetry\.(dev-)?dependencies|tool\.poetry\.group\.[^.]+\.dependencies)$/;
+
+// Names declared in a Pipfile or pyproject.toml (Poetry tables or PEP 621 requirement arrays), PEP 503-normalized.
+function pythonDependencyNames(manifest: string | null): Set<string> | null {
+  if (!manifest) {
+    return null;
+  }
+  const names = new Set<string>();
+  const requirements = (text: string) => {
+    for (const match of text.matchAll(/["']([A-Za-z0-9][A-Za-z0-9._-]*)/g)) {
+      names.add(normalizePythonName(match[1]));
+    }
+  };
+  let table = '';
+  let inArray = false;
+  for (const line of manifest.split(/\r?\n/)) {
+    const header = /^\s*\[([^\]]+)\]\s*$/.exec(line);
+    if (header) {
+      table = header[1].trim();
+      inArray = false;
+      continue;
+    }
+    if (inArray) {
+      requirements(line);
+      inArray = !line.includes(']');
+      continue;
+    }
+    const pair = /^\s*(["']?)([A-Za-z0-9._-]+)\1\s*=\s*(.*)$/.exec(line);
+    if (!pair) {
+      continue;
+    }
+    if (KEYED_DEPENDENCY_TABLES.test(table)) {
+      if (pair[2] !== 'python') {
+        names.add(normalizePythonName(pair[2]));
+      }
+    } else if ((table === 'project' && pair[2] === 'dependencies') || table === 'project.optional-dependencies') {
+      requirements(pair[3]);
+      inArray = pair[3].includes('[') && !pair[3].includes(']');
+    }
+  }
+  return names;
+}
+
+function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+// Older Poetry lockfiles keep the digests apart, as `name = [{file = ..., hash = ...}, ...]` under [metadata.files].
+function poetryMetadataHashes(content: string): Map<string, string[]> {
+  const hashes = new Map<string, string[]>();
+  let inFiles = false;
+  let name: string | null = null;
+  for (const line of content.split(/\r?\n/)) {
+    const header = /^\s*\[([^\]]+)\]\s*$/.exec(line);
+    if (header) {
+      inFiles = header[1].trim() === 'metadata.files';
+      continue;
+    }
+    if (!inFiles) {
+      continue;
+    }
+    const key = /^\s*(["']?)([A-Za-z0-9._-]+)\1\s*=/.exec(line);
+    if (key) {
+      name = normalizePythonName(key[2]);
+    }
+    if (name) {
+      hashes.set(name, [...(hashes.get(name) || []), ...Array.from(line.matchAll(/\bhash\s*=\s*"([^"]+)"/g), match => match[1])]);
+    }
+  }
+  return hashes;
+}
+
+function parsePoetryLock(content: string, manifest: string | null): Parsed[] {
+  const declared = pythonDependencyNames(manifest);
+  const metadataHashes = poetryMetadataHashes(content);
+  return parseTomlPackages(content)
+    .filter(({ fields }) => !['git', 'directory', 'file', 'url'].includes(fields['source.type']))
+    .map(({ fields, hashes }) => ({
+      ecosystem: 'PyPI' as OsvEcosystem,
+      name: fields.name,
+      version: fields.version,
+      direct: declared && fields.name ? declared.has(normalizePythonName(fields.name)) : null,
+      license: null,
+      hashes: parseHashes(hashes.length > 0 ? hashes : metadataHashes.get(normalizePythonName(fields.name || '')) || []),
+    }));
+}
+
+function parseCargoLock(content: string): Parsed[] {
+  const packages = parseTomlPackages(content);
+  // Crates without a registry source are the workspace's own or come from a path or git; what they depend on is direct.
+  const local = packages.filter(entry => !entry.fields.source);
+  const declared = new Set(local.flatMap(entry => entry.dependencies));
+  return packages
+    .filter(entry => entry.fields.source?.startsWith('registry+'))
+    .map(({ fields }) => ({
+      ecosystem: 'crates.io' as OsvEcosystem,
+      name: fields.name,
+      version: fields.version,
+      direct: local.length > 0 ? declared.has(fields.name) : null,
+      license: null,
+      // Cargo's checksum is the SHA-256 of the .crate archive.
+      hashes: fields.checksum ? parseHashes([`sha256:${fields.checksum}`]) : [],
+    }));
+}
+
+function parsePipfileLock(content: string, manifest: string | null): Parsed[] {
+  const declared = pythonDependencyNames(manifest);
+  const lock = JSON.parse(content) as Record<string, Record<string, { version?: string; hashes?: string[] }>>;
+  return ['default', 'develop'].flatMap(group =>
+    Object.entries(lock[group] || {})
+      .filter(([, entry]) => entry.version?.startsWith('=='))
+      .map(([name, entry]) => ({
+        ecosystem: 'PyPI' as OsvEcosystem,
+        name,
+        version: entry.version!.slice(2),
+        direct: declared ? declared.has(normalizePythonName(name)) : null,
+        license: null,
+        hashes: parseHashes(entry.hashes || []),
+      })),
+  );
+}
+
+// Modules go.mod requires without an `// indirect` marker.
+function goDirectModules(manifest: string | null): Set<string> | null {
+  if (!manifest) {
+    return null;
+  }
+  const modules = new Set<string>();
+  let inBlock = false;
+  for (const line of manifest.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (/^require\s*\($/.test(trimmed)) {
+      inBlock = true;
+      continue;
+    }
+    if (inBlock && trimmed === ')') {
+      inBlock = false;
+      continue;
+    }
+    const requirement = inBlock ? trimmed : /^require\s+(.*)$/.exec(trimmed)?.[1];
+    if (requirement && !/\/\/\s*indirect\b/.test(requirement)) {
+      modules.add(requirement.split(/\s+/)[0]);
+    }
+  }
+  return modules;
+}
+
+// `module v1.2.3 h1:...` lines are downloaded modules; `/go.mod`-only lines were just read for the module graph.
+function parseGoSum(content: string, manifest: string | null): Parsed[] {
+  const declared = goDirectModules(manifest);
+  const packages: Parsed[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const [module, version] = line.trim().split(/\s+/);
+    if (module && version && !version.endsWith('/go.mod')) {
+      // OSV lists Go versions without the leading "v"; +incompatible is build metadata.
+      packages.push({
+        ecosystem: 'Go',
+        name: module,
+        version: version.replace(/^v/, '').replace(/\+incompatible$/, ''),
+        direct: declared ? declared.has(module) : null,
+        // go.sum's h1: hash covers the module's file tree, not a downloadable archive, so it has no SBOM equivalent.
+        license: null,
+        hashes: [],
+      });
+    }
+  }
+  return packages;
+}
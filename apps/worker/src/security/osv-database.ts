@@ -0,0 +1,249 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { OsvEcosystem, VulnerabilitySeverity } from 'types';
+import { cvssV3BaseScore, severityOfScore } from './cvss';
+import { compareVersions } from './versions';
+
+const DEFAULT_ROOT = '/var/lib/devatlas/osv';
+// How long an ecosystem's stamp is trusted before its records are stat'ed again.
+const STAMP_TTL_MS = 60 * 1000;
+
+export const OSV_ECOSYSTEMS: OsvEcosystem[] = ['npm', 'PyPI', 'Go', 'crates.io'];
+
+// The parts of an OSV record (https://ossf.github.io/osv-schema/) that matching needs.
+interface OsvRecord {
+  id: string;
+  aliases?: string[];
+  summary?: string;
+  details?: string;
+  withdrawn?: string;
+  severity?: { type: string; score: string }[];
+  database_specific?: { severity?: string };
+  affected?: {
+    package?: { ecosystem?: string; name?: string };
+    ranges?: { type: string; events: { introduced?: string; fixed?: string; last_affected?: string; limit?: string }[] }[];
+    versions?: string[];
+  }[];
+}
+
+// GitHub's own ratings, used when an advisory has no CVSS v3 vector.
+const DATABASE_SEVERITIES: Record<string, VulnerabilitySeverity> = {
+  CRITICAL: 'critical',
+  HIGH: 'high',
+  MODERATE: 'medium',
+  MEDIUM: 'medium',
+  LOW: 'low',
+};
+
+interface Rating {
+  severity: VulnerabilitySeverity;
+  cvssScore: number | null;
+  cvssVector: string | null;
+}
+
+interface Advisory extends Rating {
+  id: string;
+  aliases: string[];
+  summary: string;
+  ranges: NonNullable<NonNullable<OsvRecord['affected']>[number]['ranges']>;
+  versions: Set<string>;
+}
+
+export interface AdvisoryMatch extends Rating {
+  id: string;
+  aliases: string[];
+  summary: string;
+  fixedVersion: string | null;
+}
+
+interface LoadedEcosystem {
+  stamp: string | null;
+  advisories: Map<string, Advisory[]>; // normalized package name -> advisories
+}
+
+/**
+ * Advisories from a local copy of the OSV database under OSV_DB_PATH, one
+ * directory of OSV JSON records per ecosystem, as in osv.dev's per-ecosystem
+ * `all.zip` exports. Refreshing it is a matter of replacing a directory's
+ * contents; no network access is needed at analysis time. An ecosystem is
+ * indexed on first use and re-read once any of its records has changed.
+ */
+@Injectable()
+export class OsvDatabase {
+  private readonly root = process.env.OSV_DB_PATH || DEFAULT_ROOT;
+  private readonly loaded = new Map<OsvEcosystem, LoadedEcosystem>();
+  private readonly stamps = new Map<OsvEcosystem, { stamp: Promise<string | null>; checkedAt: number }>();
+
+  // Changes whenever any record does, so cached audits are redone after a refresh.
+  async revision(): Promise<string | null> {
+    const stamps: string[] = [];
+    for (const ecosystem of OSV_ECOSYSTEMS) {
+      const stamp = await this.stamp(ecosystem);
+      if (stamp !== null) {
+        stamps.push(`${ecosystem}:${stamp}`);
+      }
+    }
+    return stamps.length > 0 ? createHash('sha256').update(stamps.join('\n')).digest('hex').slice(0, 16) : null;
+  }
+
+  async has(ecosystem: OsvEcosystem): Promise<boolean> {
+    return (await this.stamp(ecosystem)) !== null;
+  }
+
+  async query(ecosystem: OsvEcosystem, name: string, version: string): Promise<AdvisoryMatch[]> {
+    const advisories = (await this.load(ecosystem)).advisories.get(normalizeName(ecosystem, name)) || [];
+    const matches: AdvisoryMatch[] = [];
+    for (const advisory of advisories) {
+      const affected = affects(ecosystem, advisory, version);
+      if (affected) {
+        const { id, aliases, summary, severity, cvssScore, cvssVector } = advisory;
+        matches.push({ id, aliases, summary, severity, cvssScore, cvssVector, fixedVersion: affected.fixed });
+      }
+    }
+    return matches;
+  }
+
+  private async load(ecosystem: OsvEcosystem): Promise<LoadedEcosystem> {
+    const stamp = await this.stamp(ecosystem);
+    const cached = this.loaded.get(ecosystem);
+    if (cached && cached.stamp === stamp) {
+      return cached;
+    }
+
+    const directory = path.join(this.root, ecosystem);
+    const advisories = new Map<string, Advisory[]>();
+    const files = stamp === null ? [] : await recordFiles(directory);
+    for (const file of files) {
+      let record: OsvRecord;
+      try {
+        record = JSON.parse(await fs.readFile(path.join(directory, file), 'utf-8'));
+      } catch (error) {
+        console.warn(`Skipping unreadable OSV record ${file}: ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
+      const rating = rate(record);
+      if (record.withdrawn || !rating) {
+        continue;
+      }
+      for (const affected of record.affected || []) {
+        if (affected.package?.ecosystem !== ecosystem || !affected.package.name) {
+          continue;
+        }
+        const key = normalizeName(ecosystem, affected.package.name);
+        advisories.set(key, [...(advisories.get(key) || []), {
+          id: record.id,
+          aliases: record.aliases || [],
+          summary: record.summary || record.details?.split('\n')[0] || '',
+          ...rating,
+          ranges: (affected.ranges || []).filter(range => range.type === 'SEMVER' || range.type === 'ECOSYSTEM'),
+          versions: new Set(affected.versions || []),
+        }]);
+      }
+    }
+
+    console.log(`Loaded ${files.length} OSV records for ${ecosystem}.`);
+    const entry = { stamp, advisories };
+    this.loaded.set(ecosystem, entry);
+    return entry;
+  }
+
+  // Every query asks, and computing a stamp stats each record, so one is reused for STAMP_TTL_MS.
+  private stamp(ecosystem: OsvEcosystem): Promise<string | null> {
+    const cached = this.stamps.get(ecosystem);
+    if (cached && Date.now() - cached.checkedAt < STAMP_TTL_MS) {
+      return cached.stamp;
+    }
+    const stamp = this.computeStamp(ecosystem);
+    this.stamps.set(ecosystem, { stamp, checkedAt: Date.now() });
+    return stamp;
+  }
+
+  // A hash of each record's name, size and mtime: files overwritten in place, as by `unzip -o`, leave the directory's own mtime alone.
+  private async computeStamp(ecosystem: OsvEcosystem): Promise<string | null> {
+    const directory = path.join(this.root, ecosystem);
+    let files: string[];
+    try {
+      files = await recordFiles(directory);
+    } catch {
+      return null;
+    }
+    const hash = createHash('sha256');
+    for (const file of files) {
+      try {
+        const stats = await fs.stat(path.join(directory, file));
+        hash.update(`${file}:${stats.size}:${stats.mtimeMs}\n`);
+      } catch {
+        // Removed by a refresh while we were listing; the next stamp will reflect it.
+      }
+    }
+    return hash.digest('hex').slice(0, 16);
+  }
+}
+
+async function recordFiles(directory: string): Promise<string[]> {
+  return (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort();
+}
+
+// The highest CVSS v3 base score among the record's vectors, else the database's own rating; null when CVSS rates it None.
+function rate(record: OsvRecord): Rating | null {
+  let best: { score: number; vector: string } | null = null;
+  for (const { type, score: vector } of record.severity || []) {
+    const score = type === 'CVSS_V3' ? cvssV3BaseScore(vector) : null;
+    if (score !== null && (!best || score > best.score)) {
+      best = { score, vector };
+    }
+  }
+  if (best) {
+    const severity = severityOfScore(best.score);
+    return severity && { severity, cvssScore: best.score, cvssVector: best.vector };
+  }
+  const rated = DATABASE_SEVERITIES[(record.database_specific?.severity || '').toUpperCase()];
+  return { severity: rated || 'unknown', cvssScore: null, cvssVector: null };
+}
+
+// PyPI names compare after PEP 503 normalization; the other registries are exact.
+function normalizeName(ecosystem: OsvEcosystem, name: string): string {
+  return ecosystem === 'PyPI' ? name.toLowerCase().replace(/[-_.]+/g, '-') : name;
+}
+
+/**
+ * OSV's evaluation: walking a range's events in version order, `introduced`
+ * opens an affected interval and `fixed` or `last_affected` closes it. An
+ * explicit `versions` entry counts on its own. Returns the fix for the
+ * interval the version falls in, or null when it is not affected.
+ */
+function affects(ecosystem: OsvEcosystem, advisory: Advisory, version: string): { fixed: string | null } | null {
+  const result: { fixed: string | null } | null = advisory.versions.has(version) ? { fixed: null } : null;
+
+  for (const range of advisory.ranges) {
+    const events = range.events
+      .map(event => ({ event, at: event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? '' }))
+      .filter(({ at }) => compareVersions(ecosystem, at, at) !== null)
+      .sort((a, b) => compareVersions(ecosystem, a.at, b.at)!);
+
+    let affected = false;
+    for (const { event, at } of events) {
+      const order = compareVersions(ecosystem, version, at);
+      if (order === null) {
+        return result;
+      }
+      if (event.introduced !== undefined && order >= 0) {
+        affected = true;
+      } else if (event.fixed !== undefined && order >= 0) {
+        affected = false;
+      } else if (event.last_affected !== undefined && order > 0) {
+        affected = false;
+      } else if (event.limit !== undefined && order >= 0) {
+        affected = false;
+      }
+    }
+
+    if (affected) {
+      const fix = events.find(({ event, at }) => event.fixed !== undefined && compareVersions(ecosystem, at, version)! > 0);
+      return { fixed: fix ? fix.at : result?.fixed ?? null };
+    }
+  }
+  return result;
+}
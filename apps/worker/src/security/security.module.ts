@@ -1,8 +1,9 @@
 import { Module } from '@nestjs/common';
+import { OsvDatabase } from './osv-database';
 import { SecurityService } from './security.service';
 
 @Module({
-  providers: [SecurityService],
-  exports: [SecurityService],
+  providers: [OsvDatabase, SecurityService],
+  exports: [OsvDatabase, SecurityService],
 })
 export class SecurityModule {}
@@ -1,82 +1,106 @@
 import { Injectable } from '@nestjs/common';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-
-const execAsync = promisify(exec);
+import { DependencyAudit, DependencyVulnerability, LockedPackage, OsvEcosystem } from 'types';
+import { isLockfile, manifestFor, mergePackage, parseLockfile } from './lockfiles';
+import { OsvDatabase } from './osv-database';
 
 @Injectable()
 export class SecurityService {
-  async analyze(repoPath: string): Promise<number> {
+  constructor(private readonly osv: OsvDatabase) {}
+
+  /**
+   * Audits the dependencies pinned in the repository's lockfiles against the
+   * local OSV database. Lockfiles are only read and parsed; nothing from the
+   * repository is installed or executed. `files` lists the tracked files the
+   * analysis may look at, so a lockfile excluded by the user is not audited.
+   */
+  async analyze(repoPath: string, files: string[]): Promise<DependencyAudit> {
     console.log(`Running security analysis on path: ${repoPath}`);
+    const { lockfiles, packages } = await this.lockedPackages(repoPath, files);
 
-    if (await this.pathExists(path.join(repoPath, 'package-lock.json'))) {
-      return this.runNpmAudit(repoPath);
-    }
-    if (await this.pathExists(path.join(repoPath, 'requirements.txt'))) {
-      return this.runPipAudit(repoPath);
+    const ecosystems = Array.from(new Set(packages.map(entry => entry.ecosystem)));
+    const unaudited: OsvEcosystem[] = [];
+    for (const ecosystem of ecosystems) {
+      if (!(await this.osv.has(ecosystem))) {
+        unaudited.push(ecosystem);
+      }
     }
-
-    console.log('No supported dependency files found for security scan.');
-    return 0;
-  }
-
-  private async pathExists(p: string): Promise<boolean> {
-    try {
-      await fs.access(p);
-      return true;
-    } catch {
-      return false;
+    if (unaudited.length > 0) {
+      console.warn(`No local OSV advisories for ${unaudited.join(', ')}; those dependencies were not audited.`);
     }
-  }
 
-  private async runNpmAudit(repoPath: string): Promise<number> {
-    try {
-      console.log('Running npm install for audit...');
-      await execAsync('npm install --omit=dev', { cwd: repoPath });
-      console.log('Running npm audit...');
-      const { stdout } = await execAsync('npm audit --json', { cwd: repoPath });
-      const auditResult = JSON.parse(stdout);
-      return auditResult.metadata?.vulnerabilities?.total || 0;
-    } catch (error) {
-      if (error.stdout) {
-        try {
-          const auditResult = JSON.parse(error.stdout);
-          const vulnerabilityCount = auditResult.metadata?.vulnerabilities?.total || 0;
-          console.log(`npm audit found ${vulnerabilityCount} vulnerabilities.`);
-          return vulnerabilityCount;
-        } catch (parseError) {
-          console.error('Failed to parse npm audit JSON output:', parseError);
-          return -1;
+    const vulnerabilities: DependencyVulnerability[] = [];
+    for (const entry of packages) {
+      if (unaudited.includes(entry.ecosystem)) {
+        continue;
+      }
+      // OSV often carries one issue under several ids (GHSA, PYSEC, CVE); it is reported once.
+      const reported = new Set<string>();
+      for (const match of await this.osv.query(entry.ecosystem, entry.name, entry.version)) {
+        if (reported.has(match.id) || match.aliases.some(alias => reported.has(alias))) {
+          continue;
         }
+        [match.id, ...match.aliases].forEach(id => reported.add(id));
+        vulnerabilities.push({
+          advisoryId: match.id,
+          aliases: match.aliases,
+          summary: match.summary,
+          ecosystem: entry.ecosystem,
+          package: entry.name,
+          version: entry.version,
+          lockfile: entry.lockfile,
+          direct: entry.direct,
+          severity: match.severity,
+          cvssScore: match.cvssScore,
+          cvssVector: match.cvssVector,
+          fixedVersion: match.fixedVersion,
+        });
       }
-      console.error('npm audit failed:', error);
-      return -1;
     }
+
+    console.log(`Dependency audit: ${vulnerabilities.length} vulnerabilities in ${packages.length} packages from ${lockfiles.length} lockfiles.`);
+    return {
+      lockfiles,
+      ecosystems,
+      packages: packages.length,
+      vulnerabilities,
+      unaudited,
+      databaseRevision: await this.osv.revision(),
+    };
   }
 
-  private async runPipAudit(repoPath: string): Promise<number> {
-    try {
-      console.log('Running pip-audit...');
-      const command = `pip-audit -r ${path.join(repoPath, 'requirements.txt')} --json`;
-      const { stdout } = await execAsync(command);
-      const auditResult = JSON.parse(stdout);
-      return auditResult.dependencies?.filter(d => d.vulns.length > 0).length || 0;
-    } catch (error) {
-      if (error.stdout) {
-        try {
-          const auditResult = JSON.parse(error.stdout);
-          const vulnerabilityCount = auditResult.dependencies?.filter(d => d.vulns.length > 0).length || 0;
-          console.log(`pip-audit found ${vulnerabilityCount} vulnerabilities.`);
-          return vulnerabilityCount;
-        } catch (parseError) {
-          console.error('Failed to parse pip-audit JSON output:', parseError);
-          return -1;
+  /**
+   * Every package version pinned by the lockfiles among `files`, once per
+   * ecosystem, name and version however many lockfiles pin it. A lockfile
+   * that does not parse is skipped with a warning.
+   */
+  async lockedPackages(repoPath: string, files: string[]): Promise<{ lockfiles: string[]; packages: LockedPackage[] }> {
+    const lockfiles = files.filter(isLockfile).sort();
+    const packages = new Map<string, LockedPackage>();
+    for (const lockfile of lockfiles) {
+      try {
+        const content = await fs.readFile(path.join(repoPath, lockfile), 'utf-8');
+        const manifest = manifestFor(lockfile);
+        const manifestContent = manifest && files.includes(manifest) ? await fs.readFile(path.join(repoPath, manifest), 'utf-8') : null;
+        for (const entry of parseLockfile(lockfile, content, manifestContent)) {
+          const key = `${entry.ecosystem}:${entry.name}@${entry.version}`;
+          const existing = packages.get(key);
+          if (existing) {
+            mergePackage(existing, entry);
+          } else {
+            packages.set(key, entry);
+          }
         }
+      } catch (error) {
+        console.warn(`Could not parse ${lockfile}: ${error instanceof Error ? error.message : error}`);
       }
-      console.error('pip-audit failed:', error);
-      return -1;
     }
+    return { lockfiles, packages: Array.from(packages.values()) };
+  }
+
+  // Identifies the advisory data an audit would run against.
+  databaseRevision(): Promise<string | null> {
+    return this.osv.revision();
   }
 }
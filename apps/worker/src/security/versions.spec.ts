@@ -0,0 +1,69 @@
+import { compareVersions } from './versions';
+
+describe('compareVersions', () => {
+  describe('semver', () => {
+    it.each([
+      ['1.2.3', '1.2.4', -1],
+      ['1.10.0', '1.9.9', 1],
+      ['2.0.0', '2.0.0', 0],
+      ['v1.2.3', '1.2.3', 0],
+      ['1.0.0+build.5', '1.0.0', 0],
+    ])('orders %s against %s', (a, b, expected) => {
+      expect(compareVersions('npm', a, b)).toBe(expected);
+    });
+
+    it('sorts a pre-release before its release', () => {
+      expect(compareVersions('npm', '1.0.0-rc.1', '1.0.0')).toBe(-1);
+      expect(compareVersions('crates.io', '1.0.0', '1.0.0-beta')).toBe(1);
+    });
+
+    // The precedence example of semver 2.0.0, section 11.
+    it('orders pre-release identifiers as the spec does', () => {
+      const ordered = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-alpha.beta', '1.0.0-beta', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0-rc.1', '1.0.0'];
+      for (let index = 1; index < ordered.length; index++) {
+        expect(compareVersions('npm', ordered[index - 1], ordered[index])).toBe(-1);
+      }
+    });
+
+    it('compares Go module versions with their v prefix', () => {
+      expect(compareVersions('Go', 'v0.17.0', 'v0.9.1')).toBe(1);
+    });
+
+    it('returns null when a version does not parse', () => {
+      expect(compareVersions('npm', '1.2', '1.2.0')).toBeNull();
+      expect(compareVersions('Go', 'v0.0.0-20220101-abcdef', 'latest')).toBeNull();
+    });
+  });
+
+  describe('PEP 440', () => {
+    it.each([
+      ['1.0', '1.0.0', 0],
+      ['1.0.1', '1.0', 1],
+      ['2.0', '10.0', -1],
+      ['1!1.0', '2.0', 1],
+      ['1.0.post1', '1.0', 1],
+      ['1.0-1', '1.0.post1', 0],
+      ['1.0rc1', '1.0.0rc1', 0],
+      ['1.0alpha2', '1.0a2', 0],
+    ])('orders %s against %s', (a, b, expected) => {
+      expect(compareVersions('PyPI', a, b)).toBe(expected);
+    });
+
+    it('orders dev, pre, final and post releases like packaging', () => {
+      const ordered = ['1.0.dev1', '1.0a1.dev1', '1.0a1', '1.0b2', '1.0rc1', '1.0', '1.0.post1.dev1', '1.0.post1', '1.1.dev0'];
+      for (let index = 1; index < ordered.length; index++) {
+        expect(compareVersions('PyPI', ordered[index - 1], ordered[index])).toBe(-1);
+      }
+    });
+
+    it('returns null when a version does not parse', () => {
+      expect(compareVersions('PyPI', '1.0', 'not-a-version')).toBeNull();
+    });
+  });
+
+  it("sorts OSV's 0 before every version", () => {
+    expect(compareVersions('npm', '0', '0.0.1')).toBe(-1);
+    expect(compareVersions('PyPI', '0.1', '0')).toBe(1);
+    expect(compareVersions('Go', '0', '0')).toBe(0);
+  });
+});
@@ -0,0 +1,113 @@
+import { OsvEcosystem } from 'types';
+
+const SEMVER = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PEP440 = /^v?(?:(\d+)!)?(\d+(?:\.\d+)*)(?:[-_.]?(a|b|c|rc|alpha|beta|pre|preview)[-_.]?(\d*))?(?:-(\d+)|[-_.]?(?:post|rev|r)[-_.]?(\d*))?(?:[-_.]?dev[-_.]?(\d*))?(?:\+[a-z0-9.]+)?$/i;
+
+/**
+ * Orders two versions of one ecosystem: PEP 440 for PyPI, semver for npm,
+ * Go and crates.io. Returns null when either version does not parse, so a
+ * range is never matched on a guess. OSV's "0" sorts before everything.
+ */
+export function compareVersions(ecosystem: OsvEcosystem, a: string, b: string): number | null {
+  if (a === '0' || b === '0') {
+    return a === b ? 0 : a === '0' ? -1 : 1;
+  }
+  return ecosystem === 'PyPI' ? comparePep440(a, b) : compareSemver(a, b);
+}
+
+function compareSemver(a: string, b: string): number | null {
+  const left = SEMVER.exec(a.trim());
+  const right = SEMVER.exec(b.trim());
+  if (!left || !right) {
+    return null;
+  }
+  for (let index = 1; index <= 3; index++) {
+    const difference = Number(left[index]) - Number(right[index]);
+    if (difference !== 0) {
+      return Math.sign(difference);
+    }
+  }
+  // A pre-release sorts before its release; identifiers compare numerically when both are numbers.
+  if (!left[4] || !right[4]) {
+    return left[4] ? -1 : right[4] ? 1 : 0;
+  }
+  const leftIds = left[4].split('.');
+  const rightIds = right[4].split('.');
+  for (let index = 0; index < Math.max(leftIds.length, rightIds.length); index++) {
+    if (leftIds[index] === undefined || rightIds[index] === undefined) {
+      return leftIds[index] === undefined ? -1 : 1;
+    }
+    const leftNumeric = /^\d+$/.test(leftIds[index]);
+    const rightNumeric = /^\d+$/.test(rightIds[index]);
+    if (leftNumeric && rightNumeric) {
+      const difference = Number(leftIds[index]) - Number(rightIds[index]);
+      if (difference !== 0) {
+        return Math.sign(difference);
+      }
+    } else if (leftNumeric !== rightNumeric) {
+      return leftNumeric ? -1 : 1;
+    } else if (leftIds[index] !== rightIds[index]) {
+      return leftIds[index] < rightIds[index] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+function comparePep440(a: string, b: string): number | null {
+  const left = pep440Key(a);
+  const right = pep440Key(b);
+  if (!left || !right) {
+    return null;
+  }
+  // Releases are padded with zeros, so 1.0 == 1.0.0.
+  const length = Math.max(left.release.length, right.release.length);
+  const leftKey = [left.epoch, ...padded(left.release, length), ...left.suffix];
+  const rightKey = [right.epoch, ...padded(right.release, length), ...right.suffix];
+  for (let index = 0; index < leftKey.length; index++) {
+    if (leftKey[index] !== rightKey[index]) {
+      return Math.sign(leftKey[index] - rightKey[index]);
+    }
+  }
+  return 0;
+}
+
+// The pre/post/dev ordering of the `packaging` library: 1.0.dev1 < 1.0a1 < 1.0 < 1.0.post1.
+function pep440Key(version: string): { epoch: number; release: number[]; suffix: number[] } | null {
+  const match = PEP440.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+  const [, epoch, release, preLabel, preNumber, implicitPost, postNumber, devNumber] = match;
+  const hasPost = implicitPost !== undefined || postNumber !== undefined;
+  const hasDev = devNumber !== undefined;
+
+  let pre: number[];
+  if (preLabel) {
+    pre = [preRank(preLabel), Number(preNumber) || 0];
+  } else if (!hasPost && hasDev) {
+    // A bare dev release sorts before every pre-release of the same version.
+    pre = [-1, 0];
+  } else {
+    pre = [3, 0];
+  }
+  const post = hasPost ? Number(implicitPost ?? postNumber) || 0 : -1;
+  const dev = hasDev ? Number(devNumber) || 0 : Number.MAX_SAFE_INTEGER;
+  return { epoch: Number(epoch) || 0, release: release.split('.').map(Number), suffix: [...pre, post, dev] };
+}
+
+function padded(release: number[], length: number): number[] {
+  return [...release, ...new Array(length - release.length).fill(0)];
+}
+
+function preRank(label: string): number {
+  switch (label.toLowerCase()) {
+    case 'a':
+    case 'alpha':
+      return 0;
+    case 'b':
+    case 'beta':
+      return 1;
+    default:
+      return 2;
+  }
+}
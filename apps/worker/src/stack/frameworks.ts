@@ -0,0 +1,44 @@
+import { Ecosystem } from 'types';
+
+export interface FrameworkRule {
+  name: string;
+  kind: 'application' | 'test';
+  ecosystem: Ecosystem;
+  // Dependency names; a trailing '*' matches by prefix (Maven deps are `groupId:artifactId`).
+  packages: string[];
+}
+
+export const FRAMEWORK_RULES: FrameworkRule[] = [
+  { name: 'NestJS', kind: 'application', ecosystem: 'npm', packages: ['@nestjs/core'] },
+  { name: 'Next.js', kind: 'application', ecosystem: 'npm', packages: ['next'] },
+  { name: 'React', kind: 'application', ecosystem: 'npm', packages: ['react'] },
+  { name: 'Vue', kind: 'application', ecosystem: 'npm', packages: ['vue'] },
+  { name: 'Angular', kind: 'application', ecosystem: 'npm', packages: ['@angular/core'] },
+  { name: 'Express', kind: 'application', ecosystem: 'npm', packages: ['express'] },
+  { name: 'Django', kind: 'application', ecosystem: 'pypi', packages: ['django'] },
+  { name: 'Flask', kind: 'application', ecosystem: 'pypi', packages: ['flask'] },
+  { name: 'FastAPI', kind: 'application', ecosystem: 'pypi', packages: ['fastapi'] },
+  { name: 'Spring', kind: 'application', ecosystem: 'maven', packages: ['org.springframework.boot:*', 'org.springframework:*'] },
+  { name: 'Gin', kind: 'application', ecosystem: 'go', packages: ['github.com/gin-gonic/gin'] },
+  { name: 'Echo', kind: 'application', ecosystem: 'go', packages: ['github.com/labstack/echo*'] },
+  { name: 'Actix Web', kind: 'application', ecosystem: 'cargo', packages: ['actix-web'] },
+  { name: 'Axum', kind: 'application', ecosystem: 'cargo', packages: ['axum'] },
+  { name: 'Rails', kind: 'application', ecosystem: 'rubygems', packages: ['rails'] },
+  { name: 'Sinatra', kind: 'application', ecosystem: 'rubygems', packages: ['sinatra'] },
+  { name: 'Jest', kind: 'test', ecosystem: 'npm', packages: ['jest'] },
+  { name: 'Vitest', kind: 'test', ecosystem: 'npm', packages: ['vitest'] },
+  { name: 'Mocha', kind: 'test', ecosystem: 'npm', packages: ['mocha'] },
+  { name: 'Jasmine', kind: 'test', ecosystem: 'npm', packages: ['jasmine', 'jasmine-core'] },
+  { name: 'Playwright', kind: 'test', ecosystem: 'npm', packages: ['@playwright/test'] },
+  { name: 'Cypress', kind: 'test', ecosystem: 'npm', packages: ['cypress'] },
+  { name: 'pytest', kind: 'test', ecosystem: 'pypi', packages: ['pytest'] },
+  { name: 'JUnit', kind: 'test', ecosystem: 'maven', packages: ['junit:junit', 'org.junit*'] },
+  { name: 'TestNG', kind: 'test', ecosystem: 'maven', packages: ['org.testng:*'] },
+  { name: 'testify', kind: 'test', ecosystem: 'go', packages: ['github.com/stretchr/testify'] },
+  { name: 'RSpec', kind: 'test', ecosystem: 'rubygems', packages: ['rspec', 'rspec-rails'] },
+  { name: 'Minitest', kind: 'test', ecosystem: 'rubygems', packages: ['minitest'] },
+];
+
+export function matchesPackage(pattern: string, name: string): boolean {
+  return pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : pattern === name;
+}
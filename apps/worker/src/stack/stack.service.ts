@@ -0,0 +1,318 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Ecosystem, StackFramework, StackManifest, StackProfile, StackRuntime } from 'types';
+import { FRAMEWORK_RULES, matchesPackage } from './frameworks';
+import { parseTomlTables, tomlString, tomlStrings } from './toml';
+
+// Dependency name -> declared version (null when unpinned).
+type Dependencies = Map<string, string | null>;
+
+const NPM_LOCKFILES: Record<string, string> = {
+  'pnpm-lock.yaml': 'pnpm',
+  'yarn.lock': 'yarn',
+  'package-lock.json': 'npm',
+};
+
+// Version files that name a single runtime.
+const RUNTIME_FILES: Record<string, string> = {
+  '.nvmrc': 'node',
+  '.node-version': 'node',
+  '.python-version': 'python',
+  '.ruby-version': 'ruby',
+  'rust-toolchain': 'rust',
+};
+
+// asdf tool names that differ from ours.
+const ASDF_TOOLS: Record<string, string> = { nodejs: 'node', golang: 'go' };
+
+/**
+ * Fingerprints a repository's stack from its manifests: which ecosystems and
+ * package managers it uses, the major frameworks it depends on, and the
+ * runtime versions it declares. Nothing in the repository is executed.
+ */
+@Injectable()
+export class StackService {
+  async detect(repoPath: string, files: string[]): Promise<StackProfile> {
+    const manifests: StackManifest[] = [];
+    const frameworks: StackFramework[] = [];
+    const runtimes: StackRuntime[] = [];
+    const fileSet = new Set(files);
+
+    for (const file of files) {
+      const name = path.basename(file);
+      const parsed = await this.parseManifest(repoPath, file, name, fileSet);
+      if (parsed) {
+        manifests.push(parsed.manifest);
+        runtimes.push(...parsed.runtimes);
+        frameworks.push(...findFrameworks(parsed.manifest, parsed.dependencies));
+      } else if (RUNTIME_FILES[name] || name === 'runtime.txt' || name === '.tool-versions' || name === 'rust-toolchain.toml') {
+        runtimes.push(...(await this.parseRuntimeFile(repoPath, file, name)));
+      }
+    }
+
+    const profile: StackProfile = {
+      ecosystems: unique(manifests.map(manifest => manifest.ecosystem)),
+      packageManagers: unique(manifests.map(manifest => manifest.packageManager)),
+      manifests,
+      frameworks: uniqueBy(frameworks, framework => framework.name),
+      runtimes: uniqueBy(runtimes, runtime => `${runtime.name}@${runtime.version}`),
+    };
+    console.log(`Stack: ${profile.ecosystems.join(', ') || 'none'}; frameworks: ${profile.frameworks.map(f => f.name).join(', ') || 'none'}`);
+    return profile;
+  }
+
+  private async parseManifest(
+    repoPath: string,
+    file: string,
+    name: string,
+    files: Set<string>,
+  ): Promise<{ manifest: StackManifest; dependencies: Dependencies; runtimes: StackRuntime[] } | null> {
+    const manifest = (ecosystem: Ecosystem, packageManager: string): StackManifest => ({ path: file, ecosystem, packageManager });
+    switch (name) {
+      case 'package.json': {
+        const json = parseJson(await read(repoPath, file));
+        const dependencies: Dependencies = new Map();
+        for (const field of ['dependencies', 'devDependencies', 'peerDependencies']) {
+          for (const [dependency, version] of Object.entries(json[field] || {})) {
+            dependencies.set(dependency, String(version));
+          }
+        }
+        const runtimes = json.engines?.node ? [{ name: 'node', version: String(json.engines.node), source: file }] : [];
+        return { manifest: manifest('npm', npmPackageManager(json, file, files)), dependencies, runtimes };
+      }
+      case 'requirements.txt':
+        return { manifest: manifest('pypi', 'pip'), dependencies: parseRequirements(await read(repoPath, file)), runtimes: [] };
+      case 'pyproject.toml':
+        return parsePyproject(file, await read(repoPath, file));
+      case 'Pipfile': {
+        const tables = parseTomlTables(await read(repoPath, file));
+        const python = tomlString(tables.requires?.python_version);
+        return {
+          manifest: manifest('pypi', 'pipenv'),
+          dependencies: tomlDependencies(tables.packages, tables['dev-packages']),
+          runtimes: python ? [{ name: 'python', version: python, source: file }] : [],
+        };
+      }
+      case 'go.mod':
+        return parseGoMod(file, await read(repoPath, file));
+      case 'Cargo.toml': {
+        const tables = parseTomlTables(await read(repoPath, file));
+        const rust = tomlString(tables.package?.['rust-version']);
+        return {
+          manifest: manifest('cargo', 'cargo'),
+          dependencies: tomlDependencies(tables.dependencies, tables['dev-dependencies']),
+          runtimes: rust ? [{ name: 'rust', version: rust, source: file }] : [],
+        };
+      }
+      case 'pom.xml':
+        return parsePom(file, await read(repoPath, file));
+      case 'Gemfile':
+        return parseGemfile(file, await read(repoPath, file));
+      default:
+        return null;
+    }
+  }
+
+  private async parseRuntimeFile(repoPath: string, file: string, name: string): Promise<StackRuntime[]> {
+    const content = (await read(repoPath, file)).trim();
+    if (!content) {
+      return [];
+    }
+    if (name === '.tool-versions') {
+      return content.split('\n')
+        .map(line => line.trim().split(/\s+/))
+        .filter(([tool, version]) => tool && version && !tool.startsWith('#'))
+        .map(([tool, version]) => ({ name: ASDF_TOOLS[tool] || tool, version, source: file }));
+    }
+    if (name === 'runtime.txt') {
+      // Heroku style: python-3.11.4
+      const match = content.match(/^([a-z]+)-(.+)$/);
+      return match ? [{ name: match[1], version: match[2], source: file }] : [];
+    }
+    if (name === 'rust-toolchain.toml') {
+      const channel = tomlString(parseTomlTables(content).toolchain?.channel);
+      return channel ? [{ name: 'rust', version: channel, source: file }] : [];
+    }
+    return [{ name: RUNTIME_FILES[name], version: content.split('\n')[0].trim().replace(/^v/, ''), source: file }];
+  }
+}
+
+// The `packageManager` field wins, then a lockfile next to the manifest or at the workspace root.
+function npmPackageManager(json: any, file: string, files: Set<string>): string {
+  if (typeof json.packageManager === 'string') {
+    return json.packageManager.split('@')[0];
+  }
+  const directory = path.dirname(file);
+  for (const candidate of unique([directory, '.'])) {
+    for (const [lockfile, packageManager] of Object.entries(NPM_LOCKFILES)) {
+      if (files.has(candidate === '.' ? lockfile : `${candidate}/${lockfile}`)) {
+        return packageManager;
+      }
+    }
+  }
+  return 'npm';
+}
+
+function parseRequirements(content: string): Dependencies {
+  const dependencies: Dependencies = new Map();
+  for (const line of content.split(/\r?\n/)) {
+    const requirement = parseRequirement(line.split('#')[0].trim());
+    if (requirement) {
+      dependencies.set(requirement.name, requirement.version);
+    }
+  }
+  return dependencies;
+}
+
+// PEP 508 requirement such as `Django[argon2]>=4.2; python_version > "3.8"`; options like `-r` are skipped.
+function parseRequirement(line: string): { name: string; version: string | null } | null {
+  const match = line.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(\[[^\]]*\])?\s*([^;]*)/);
+  if (!match || line.startsWith('-')) {
+    return null;
+  }
+  return { name: match[1].toLowerCase(), version: match[3].trim() || null };
+}
+
+function parsePyproject(file: string, content: string) {
+  const tables = parseTomlTables(content);
+  const dependencies: Dependencies = new Map();
+  for (const requirement of [
+    ...tomlStrings(tables.project?.dependencies),
+    ...Object.entries(tables).filter(([table]) => table.startsWith('project.optional-dependencies'))
+      .flatMap(([, entries]) => Object.values(entries).flatMap(value => tomlStrings(value))),
+  ]) {
+    const parsed = parseRequirement(requirement);
+    if (parsed) {
+      dependencies.set(parsed.name, parsed.version);
+    }
+  }
+
+  // Poetry declares dependencies as tables, including the interpreter as `python`.
+  const poetryTables = Object.entries(tables)
+    .filter(([table]) => table.startsWith('tool.poetry') && table.endsWith('dependencies'))
+    .map(([, entries]) => entries);
+  for (const [name, version] of tomlDependencies(...poetryTables)) {
+    dependencies.set(name, version);
+  }
+  const python = tomlString(tables.project?.['requires-python']) ?? dependencies.get('python') ?? null;
+  dependencies.delete('python');
+
+  return {
+    manifest: { path: file, ecosystem: 'pypi' as const, packageManager: tables['tool.poetry'] ? 'poetry' : 'pip' },
+    dependencies,
+    runtimes: python ? [{ name: 'python', version: python, source: file }] : [],
+  };
+}
+
+function parseGoMod(file: string, content: string) {
+  const dependencies: Dependencies = new Map();
+  let inRequireBlock = false;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.split('//')[0].trim();
+    if (line === 'require (') {
+      inRequireBlock = true;
+    } else if (inRequireBlock && line === ')') {
+      inRequireBlock = false;
+    } else {
+      const requirement = (inRequireBlock ? line : line.match(/^require\s+(.*)$/)?.[1] || '').split(/\s+/);
+      if (requirement[0]) {
+        dependencies.set(requirement[0], requirement[1] || null);
+      }
+    }
+  }
+  const go = content.match(/^go\s+(\S+)/m)?.[1];
+  return {
+    manifest: { path: file, ecosystem: 'go' as const, packageManager: 'go' },
+    dependencies,
+    runtimes: go ? [{ name: 'go', version: go, source: file }] : [],
+  };
+}
+
+function parsePom(file: string, content: string) {
+  const dependencies: Dependencies = new Map();
+  for (const block of content.match(/<(dependency|parent|plugin)>[\s\S]*?<\/\1>/g) || []) {
+    const groupId = xmlValue(block, 'groupId');
+    const artifactId = xmlValue(block, 'artifactId');
+    if (groupId && artifactId) {
+      dependencies.set(`${groupId}:${artifactId}`, xmlValue(block, 'version'));
+    }
+  }
+  const java = xmlValue(content, 'java.version') || xmlValue(content, 'maven.compiler.release') || xmlValue(content, 'maven.compiler.source');
+  return {
+    manifest: { path: file, ecosystem: 'maven' as const, packageManager: 'maven' },
+    dependencies,
+    runtimes: java ? [{ name: 'java', version: java, source: file }] : [],
+  };
+}
+
+function parseGemfile(file: string, content: string) {
+  const dependencies: Dependencies = new Map();
+  for (const match of content.matchAll(/^\s*gem\s+["']([^"']+)["'](?:\s*,\s*["']([^"']+)["'])?/gm)) {
+    dependencies.set(match[1], match[2] || null);
+  }
+  const ruby = content.match(/^\s*ruby\s+["']([^"']+)["']/m)?.[1];
+  return {
+    manifest: { path: file, ecosystem: 'rubygems' as const, packageManager: 'bundler' },
+    dependencies,
+    runtimes: ruby ? [{ name: 'ruby', version: ruby, source: file }] : [],
+  };
+}
+
+function tomlDependencies(...tables: (Record<string, string> | undefined)[]): Dependencies {
+  const dependencies: Dependencies = new Map();
+  for (const table of tables) {
+    for (const [name, value] of Object.entries(table || {})) {
+      dependencies.set(name.toLowerCase(), tomlString(value));
+    }
+  }
+  return dependencies;
+}
+
+function findFrameworks(manifest: StackManifest, dependencies: Dependencies): StackFramework[] {
+  const frameworks: StackFramework[] = [];
+  for (const rule of FRAMEWORK_RULES.filter(rule => rule.ecosystem === manifest.ecosystem)) {
+    const match = Array.from(dependencies.entries())
+      .find(([name]) => rule.packages.some(pattern => matchesPackage(pattern, name)));
+    if (match) {
+      frameworks.push({ name: rule.name, kind: rule.kind, version: match[1], manifest: manifest.path });
+    }
+  }
+  return frameworks;
+}
+
+function xmlValue(xml: string, tag: string): string | null {
+  const escaped = tag.replace(/\./g, '\\.');
+  return xml.match(new RegExp(`<${escaped}>\\s*([^<]+?)\\s*</${escaped}>`))?.[1] ?? null;
+}
+
+// A malformed package.json still marks the ecosystem; it just contributes no dependencies.
+function parseJson(content: string): any {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return {};
+  }
+}
+
+async function read(repoPath: string, file: string): Promise<string> {
+  try {
+    return await fs.readFile(path.join(repoPath, file), 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+function uniqueBy<T>(values: T[], key: (value: T) => string): T[] {
+  const seen = new Map<string, T>();
+  for (const value of values) {
+    if (!seen.has(key(value))) {
+      seen.set(key(value), value);
+    }
+  }
+  return Array.from(seen.values());
+}
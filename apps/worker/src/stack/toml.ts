@@ -0,0 +1,85 @@
+/**
+ * Just enough TOML for manifests: `[table]` headers and `key = value` pairs,
+ * where a value may span lines while brackets are open. Values are returned
+ * raw; `tomlString` and `tomlStrings` pull strings out of them.
+ */
+export function parseTomlTables(content: string): Record<string, Record<string, string>> {
+  const tables: Record<string, Record<string, string>> = { '': {} };
+  let table = '';
+  let pending: { key: string; value: string } | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = stripComment(rawLine).trim();
+    if (pending) {
+      pending.value += ` ${line}`;
+      if (isBalanced(pending.value)) {
+        tables[table][pending.key] = pending.value;
+        pending = null;
+      }
+      continue;
+    }
+    if (!line) {
+      continue;
+    }
+
+    const header = line.match(/^\[\[?([^\]]+)\]\]?$/);
+    if (header) {
+      table = header[1].trim();
+      tables[table] = tables[table] || {};
+      continue;
+    }
+
+    const pair = line.match(/^("?[\w.\-]+"?)\s*=\s*(.*)$/);
+    if (pair) {
+      const key = pair[1].replace(/"/g, '');
+      if (isBalanced(pair[2])) {
+        tables[table][key] = pair[2];
+      } else {
+        pending = { key, value: pair[2] };
+      }
+    }
+  }
+  return tables;
+}
+
+// The string itself, or the `version` of an inline table such as `{ version = "1.0", features = [] }`.
+export function tomlString(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const quoted = value.trim().startsWith('{') ? value.match(/version\s*=\s*["']([^"']*)["']/) : value.match(/^\s*["']([^"']*)["']/);
+  return quoted ? quoted[1] : null;
+}
+
+export function tomlStrings(value: string | undefined): string[] {
+  return value ? Array.from(value.matchAll(/["']([^"']*)["']/g), match => match[1]) : [];
+}
+
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function isBalanced(value: string): boolean {
+  let depth = 0;
+  for (const char of value.replace(/"[^"]*"|'[^']*'/g, '')) {
+    if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    }
+  }
+  return depth <= 0;
+}
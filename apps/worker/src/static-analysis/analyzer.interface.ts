@@ -0,0 +1,31 @@
+import { Finding } from 'types';
+import { ToolContext } from '../tools/tool-runner.service';
+
+// A finding before it is fingerprinted against the text of its line.
+export type RawFinding = Omit<Finding, 'fingerprint'>;
+
+export interface AnalyzerOutput {
+  findings: RawFinding[];
+  // Configuration the tool ran with, for tools that pick one (e.g. the repository's ESLint config or the baseline).
+  config?: string;
+  // Why the run deviated from the usual setup, such as a repository config that could not be loaded.
+  note?: string;
+}
+
+export interface AnalyzerOptions {
+  // Whether configuration from the analyzed repository may be loaded when that can execute its code.
+  runRepoConfig: boolean;
+}
+
+export interface Analyzer {
+  // Recorded as the tool on every finding.
+  readonly name: string;
+  // Executable the analyzer needs on PATH; null when it runs in-process.
+  readonly binary: string | null;
+  // Inventory languages it lints; files in these languages are handed to it whatever their name.
+  readonly languages: string[];
+  // Files it lints by name, for languages the inventory does not recognize.
+  readonly filePattern: RegExp;
+  // Lints `files` (relative to `repoPath`). Throws ToolNotFoundError when `binary` is missing.
+  analyze(repoPath: string, files: string[], context?: ToolContext, options?: AnalyzerOptions): Promise<AnalyzerOutput>;
+}
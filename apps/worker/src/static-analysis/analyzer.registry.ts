@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { FileInventory } from 'types';
+import { ToolRunner } from '../tools/tool-runner.service';
+import { Analyzer } from './analyzer.interface';
+import { EslintAnalyzer } from './analyzers/eslint.analyzer';
+import { RuffAnalyzer } from './analyzers/ruff.analyzer';
+import { ShellCheckAnalyzer } from './analyzers/shellcheck.analyzer';
+import { HadolintAnalyzer } from './analyzers/hadolint.analyzer';
+import { GolangciLintAnalyzer } from './analyzers/golangci-lint.analyzer';
+
+export interface AnalyzerAssignment {
+  analyzer: Analyzer;
+  files: string[];
+}
+
+@Injectable()
+export class AnalyzerRegistry {
+  private readonly analyzers: Analyzer[];
+
+  constructor(tools: ToolRunner) {
+    this.analyzers = [
+      new EslintAnalyzer(tools),
+      new RuffAnalyzer(tools),
+      new ShellCheckAnalyzer(tools),
+      new HadolintAnalyzer(tools),
+      new GolangciLintAnalyzer(tools),
+    ];
+  }
+
+  list(): Analyzer[] {
+    return this.analyzers;
+  }
+
+  /**
+   * Hands each file to every analyzer that handles its inventory language or
+   * its name; analyzers with no files are left out. The stack profile is
+   * deliberately not consulted: any ecosystem it would select an analyzer for
+   * (npm for ESLint, PyPI for ruff) has files that select it here, and code
+   * outside any manifest is linted too.
+   */
+  assign(files: string[], inventory: FileInventory[]): AnalyzerAssignment[] {
+    const languages = new Map(inventory.map(file => [file.path, file.language]));
+    return this.analyzers
+      .map(analyzer => ({
+        analyzer,
+        files: files.filter(file =>
+          analyzer.filePattern.test(file) || analyzer.languages.includes(languages.get(file) || '')),
+      }))
+      .filter(assignment => assignment.files.length > 0);
+  }
+}
@@ -0,0 +1,98 @@
+import { Linter } from 'eslint';
+
+// The parser only publishes typings through package `exports`, which this project's module resolution does not read.
+const typescriptParser: Linter.Parser = require('@typescript-eslint/parser');
+
+/**
+ * Rules applied to repositories without a usable ESLint config of their own.
+ * The list is pinned here, rather than taken from `eslint:recommended`, so
+ * counts stay comparable across repositories and ESLint upgrades. It avoids
+ * rules that depend on the runtime environment (no-undef) or on type
+ * information. Bump the lint entry in ANALYZER_VERSIONS when it changes.
+ */
+const BASELINE_RULES: Linter.RulesRecord = {
+  'constructor-super': 'error',
+  'for-direction': 'error',
+  'getter-return': 'error',
+  'no-async-promise-executor': 'error',
+  'no-case-declarations': 'error',
+  'no-class-assign': 'error',
+  'no-compare-neg-zero': 'error',
+  'no-cond-assign': 'error',
+  'no-const-assign': 'error',
+  'no-constant-condition': 'warn',
+  'no-control-regex': 'error',
+  'no-debugger': 'error',
+  'no-dupe-args': 'error',
+  'no-dupe-class-members': 'error',
+  'no-dupe-else-if': 'error',
+  'no-dupe-keys': 'error',
+  'no-duplicate-case': 'error',
+  'no-empty': 'warn',
+  'no-empty-character-class': 'error',
+  'no-empty-pattern': 'error',
+  'no-eval': 'error',
+  'no-ex-assign': 'error',
+  'no-fallthrough': 'warn',
+  'no-func-assign': 'error',
+  'no-implied-eval': 'error',
+  'no-import-assign': 'error',
+  'no-invalid-regexp': 'error',
+  'no-irregular-whitespace': 'warn',
+  'no-loss-of-precision': 'error',
+  'no-misleading-character-class': 'error',
+  'no-new-native-nonconstructor': 'error',
+  'no-obj-calls': 'error',
+  'no-prototype-builtins': 'warn',
+  'no-redeclare': 'error',
+  'no-self-assign': 'error',
+  'no-setter-return': 'error',
+  'no-shadow-restricted-names': 'error',
+  'no-sparse-arrays': 'warn',
+  'no-this-before-super': 'error',
+  'no-unexpected-multiline': 'error',
+  'no-unreachable': 'error',
+  'no-unsafe-finally': 'error',
+  'no-unsafe-negation': 'error',
+  'no-unsafe-optional-chaining': 'error',
+  'no-unused-labels': 'warn',
+  'no-unused-private-class-members': 'warn',
+  'no-unused-vars': 'warn',
+  'no-useless-catch': 'warn',
+  'no-useless-escape': 'warn',
+  'no-var': 'warn',
+  'no-with': 'error',
+  'prefer-const': 'warn',
+  'require-yield': 'error',
+  'use-isnan': 'error',
+  'valid-typeof': 'error',
+};
+
+// The TypeScript compiler already reports these, and no-unused-vars/no-redeclare misread types and overloads.
+const TYPESCRIPT_OFF: Linter.RulesRecord = Object.fromEntries([
+  'constructor-super', 'getter-return', 'no-class-assign', 'no-const-assign', 'no-dupe-args', 'no-dupe-class-members',
+  'no-func-assign', 'no-import-assign', 'no-new-native-nonconstructor', 'no-obj-calls', 'no-redeclare', 'no-setter-return',
+  'no-this-before-super', 'no-unreachable', 'no-unsafe-negation', 'no-unused-vars',
+].map(rule => [rule, 'off']));
+
+export const ESLINT_BASELINE: Linter.Config[] = [
+  {
+    files: ['**/*.{js,mjs,cjs,jsx,ts,mts,cts,tsx}'],
+    languageOptions: {
+      ecmaVersion: 'latest',
+      sourceType: 'module',
+      parserOptions: { ecmaFeatures: { jsx: true } },
+    },
+    linterOptions: { reportUnusedDisableDirectives: false },
+    rules: BASELINE_RULES,
+  },
+  {
+    files: ['**/*.cjs'],
+    languageOptions: { sourceType: 'commonjs' },
+  },
+  {
+    files: ['**/*.{ts,mts,cts,tsx}'],
+    languageOptions: { parser: typescriptParser },
+    rules: TYPESCRIPT_OFF,
+  },
+];
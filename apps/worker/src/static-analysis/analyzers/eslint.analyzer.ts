@@ -0,0 +1,141 @@
+import { ESLint } from 'eslint';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ensureCompleted, ToolContext, ToolNotFoundError, ToolRunner } from '../../tools/tool-runner.service';
+import { Analyzer, AnalyzerOptions, AnalyzerOutput, RawFinding } from '../analyzer.interface';
+import { repoRelative } from '../command-analyzer';
+import { ESLINT_BASELINE } from './eslint-baseline';
+
+// Looked up at the repository root, in ESLint's own order of precedence.
+const FLAT_CONFIGS = ['eslint.config.js', 'eslint.config.mjs', 'eslint.config.cjs', 'eslint.config.ts', 'eslint.config.mts', 'eslint.config.cts'];
+const LEGACY_CONFIGS = ['.eslintrc.js', '.eslintrc.cjs', '.eslintrc.yaml', '.eslintrc.yml', '.eslintrc.json', '.eslintrc'];
+
+const BATCH_SIZE = 200;
+// The in-process baseline cannot be killed like a spawned tool, so it stops between batches once past this.
+const BASELINE_TIMEOUT_MS = 10 * 60 * 1000;
+
+interface RepoConfig {
+  file: string;
+  legacy: boolean;
+}
+
+/**
+ * Lints with the bundled baseline, or with the repository's own ESLint
+ * config when the project opts in and that config loads (it typically fails
+ * when its plugins are not installed). Any repository config can execute
+ * code from the analyzed repo: a JavaScript config directly, a JSON or YAML
+ * one through the parser and plugins it names. It runs in a child process
+ * through the ToolRunner, which strips the worker's environment and enforces
+ * a timeout but is no sandbox: the child can still read and write files and
+ * reach the network. The baseline runs in-process.
+ */
+export class EslintAnalyzer implements Analyzer {
+  readonly name = 'eslint';
+  readonly binary = null;
+  readonly languages = ['JavaScript', 'TypeScript'];
+  readonly filePattern = /\.([cm]?[jt]s|[jt]sx)$/;
+
+  constructor(private readonly tools: ToolRunner) {}
+
+  async analyze(repoPath: string, files: string[], context?: ToolContext, options?: AnalyzerOptions): Promise<AnalyzerOutput> {
+    const repoConfig = await findRepoConfig(repoPath);
+    if (repoConfig && !options?.runRepoConfig) {
+      const note = `${repoConfig.file} was not run; enable runRepoEslintConfig in the project settings to use it`;
+      return { findings: await this.runBaseline(repoPath, files, context), config: 'baseline', note };
+    }
+    if (repoConfig) {
+      try {
+        return { findings: await this.runRepoConfig(repoPath, files, repoConfig, context), config: repoConfig.file };
+      } catch (error) {
+        if (context?.signal?.aborted || error instanceof ToolNotFoundError) {
+          throw error;
+        }
+        const reason = `${repoConfig.file} could not be used: ${error instanceof Error ? error.message : error}`;
+        console.warn(`ESLint: ${reason}; falling back to the baseline.`);
+        return { findings: await this.runBaseline(repoPath, files, context), config: 'baseline', note: reason };
+      }
+    }
+    return { findings: await this.runBaseline(repoPath, files, context), config: 'baseline' };
+  }
+
+  private async runBaseline(repoPath: string, files: string[], context?: ToolContext): Promise<RawFinding[]> {
+    const eslint = new ESLint({
+      cwd: repoPath,
+      overrideConfigFile: true,
+      overrideConfig: ESLINT_BASELINE,
+      errorOnUnmatchedPattern: false,
+    });
+    const deadline = Date.now() + BASELINE_TIMEOUT_MS;
+    const findings: RawFinding[] = [];
+    for (let start = 0; start < files.length; start += BATCH_SIZE) {
+      if (context?.signal?.aborted) {
+        throw new Error('ESLint was cancelled.');
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`ESLint timed out after ${BASELINE_TIMEOUT_MS / 60000} minutes.`);
+      }
+      findings.push(...this.toFindings(repoPath, await eslint.lintFiles(files.slice(start, start + BATCH_SIZE))));
+    }
+    return findings;
+  }
+
+  private async runRepoConfig(repoPath: string, files: string[], config: RepoConfig, context?: ToolContext): Promise<RawFinding[]> {
+    const eslintBin = path.join(path.dirname(require.resolve('eslint/package.json')), 'bin', 'eslint.js');
+    const findings: RawFinding[] = [];
+    for (let start = 0; start < files.length; start += BATCH_SIZE) {
+      const batch = files.slice(start, start + BATCH_SIZE);
+      // Exit code 1 means lint errors were found; 2 means the config or a plugin failed to load.
+      const { stdout } = ensureCompleted(
+        await this.tools.run(
+          process.execPath,
+          [eslintBin, '--format', 'json', '--no-error-on-unmatched-pattern', ...batch],
+          { cwd: repoPath, context, env: config.legacy ? { ESLINT_USE_FLAT_CONFIG: 'false' } : undefined },
+        ),
+        [0, 1],
+      );
+      findings.push(...this.toFindings(repoPath, JSON.parse(stdout) as ESLint.LintResult[]));
+    }
+    return findings;
+  }
+
+  private toFindings(repoPath: string, results: ESLint.LintResult[]): RawFinding[] {
+    return results.flatMap(result => result.messages.map(message => ({
+      tool: this.name,
+      // Messages without a rule are files ESLint could not parse.
+      ruleId: message.ruleId || 'parse-error',
+      severity: message.severity === 2 ? 'error' as const : 'warning' as const,
+      path: repoRelative(repoPath, result.filePath),
+      line: message.line || null,
+      column: message.column || null,
+      message: message.message,
+    })));
+  }
+}
+
+async function findRepoConfig(repoPath: string): Promise<RepoConfig | null> {
+  for (const file of FLAT_CONFIGS) {
+    if (await exists(path.join(repoPath, file))) {
+      return { file, legacy: false };
+    }
+  }
+  for (const file of LEGACY_CONFIGS) {
+    if (await exists(path.join(repoPath, file))) {
+      return { file, legacy: true };
+    }
+  }
+  try {
+    const manifest = JSON.parse(await fs.readFile(path.join(repoPath, 'package.json'), 'utf-8'));
+    return manifest.eslintConfig ? { file: 'package.json#eslintConfig', legacy: true } : null;
+  } catch {
+    return null;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
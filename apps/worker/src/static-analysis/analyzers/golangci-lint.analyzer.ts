@@ -0,0 +1,63 @@
+import * as path from 'path';
+import { ensureCompleted, ToolContext } from '../../tools/tool-runner.service';
+import { CommandAnalyzer, repoRelative } from '../command-analyzer';
+import { AnalyzerOutput, RawFinding } from '../analyzer.interface';
+
+interface GolangciReport {
+  Issues: {
+    FromLinter: string;
+    Text: string;
+    Severity?: string;
+    Pos: { Filename: string; Line: number; Column: number };
+  }[] | null;
+}
+
+/**
+ * golangci-lint (v1 flags) lints whole packages rather than single files, so
+ * it runs once per Go module (`./...` from each go.mod directory) and keeps
+ * only issues in the files it was given.
+ */
+export class GolangciLintAnalyzer extends CommandAnalyzer {
+  readonly name = 'golangci-lint';
+  readonly binary = 'golangci-lint';
+  readonly languages = ['Go'];
+  // go.mod files come along to mark the module roots.
+  readonly filePattern = /(\.go|(^|\/)go\.mod)$/;
+
+  protected args(): string[] {
+    return ['run', '--out-format=json', '--issues-exit-code=1', './...'];
+  }
+
+  protected parse(stdout: string, modulePath: string): RawFinding[] {
+    const report: GolangciReport = stdout.trim() ? JSON.parse(stdout) : { Issues: [] };
+    return (report.Issues || []).map(issue => ({
+      tool: this.name,
+      ruleId: issue.FromLinter,
+      severity: issue.Severity === 'error' ? 'error' as const : 'warning' as const,
+      path: path.resolve(modulePath, issue.Pos.Filename),
+      line: issue.Pos.Line,
+      column: issue.Pos.Column || null,
+      message: issue.Text,
+    }));
+  }
+
+  async analyze(repoPath: string, files: string[], context?: ToolContext): Promise<AnalyzerOutput> {
+    const wanted = new Set(files);
+    const modules = files.filter(file => path.basename(file) === 'go.mod').map(file => path.dirname(file));
+    const findings: RawFinding[] = [];
+    for (const module of modules.length > 0 ? modules : ['.']) {
+      const modulePath = path.join(repoPath, module);
+      const { stdout } = ensureCompleted(
+        await this.tools.run(this.binary, this.args(), { cwd: modulePath, context }),
+        this.acceptedExitCodes,
+      );
+      for (const finding of this.parse(stdout, modulePath)) {
+        const relative = repoRelative(repoPath, finding.path);
+        if (wanted.has(relative)) {
+          findings.push({ ...finding, path: relative });
+        }
+      }
+    }
+    return { findings };
+  }
+}
@@ -0,0 +1,35 @@
+import { CommandAnalyzer, lintLevel, repoRelative } from '../command-analyzer';
+import { RawFinding } from '../analyzer.interface';
+
+interface HadolintResult {
+  file: string;
+  line: number;
+  column: number;
+  level: 'error' | 'warning' | 'info' | 'style';
+  code: string;
+  message: string;
+}
+
+export class HadolintAnalyzer extends CommandAnalyzer {
+  readonly name = 'hadolint';
+  readonly binary = 'hadolint';
+  readonly languages = ['Dockerfile'];
+  readonly filePattern = /(^|\/)(Dockerfile|Containerfile)(\.[^/]+)?$|\.dockerfile$/i;
+
+  protected args(files: string[]): string[] {
+    return ['--format', 'json', ...files];
+  }
+
+  protected parse(stdout: string, repoPath: string): RawFinding[] {
+    const results: HadolintResult[] = stdout.trim() ? JSON.parse(stdout) : [];
+    return results.map(result => ({
+      tool: this.name,
+      ruleId: result.code,
+      severity: lintLevel(result.level),
+      path: repoRelative(repoPath, result.file),
+      line: result.line,
+      column: result.column,
+      message: result.message,
+    }));
+  }
+}
@@ -0,0 +1,34 @@
+import { CommandAnalyzer, repoRelative } from '../command-analyzer';
+import { RawFinding } from '../analyzer.interface';
+
+interface RuffDiagnostic {
+  code: string | null;
+  message: string;
+  filename: string;
+  location: { row: number; column: number } | null;
+}
+
+export class RuffAnalyzer extends CommandAnalyzer {
+  readonly name = 'ruff';
+  readonly binary = 'ruff';
+  readonly languages = ['Python'];
+  readonly filePattern = /\.pyi?$/;
+
+  protected args(files: string[]): string[] {
+    return ['check', '--output-format=json', ...files];
+  }
+
+  protected parse(stdout: string, repoPath: string): RawFinding[] {
+    const diagnostics: RuffDiagnostic[] = stdout.trim() ? JSON.parse(stdout) : [];
+    return diagnostics.map(diagnostic => ({
+      tool: this.name,
+      // Ruff reports syntax errors without a rule code.
+      ruleId: diagnostic.code || 'syntax-error',
+      severity: diagnostic.code ? 'warning' as const : 'error' as const,
+      path: repoRelative(repoPath, diagnostic.filename),
+      line: diagnostic.location?.row ?? null,
+      column: diagnostic.location?.column ?? null,
+      message: diagnostic.message,
+    }));
+  }
+}
@@ -0,0 +1,36 @@
+import { CommandAnalyzer, lintLevel, repoRelative } from '../command-analyzer';
+import { RawFinding } from '../analyzer.interface';
+
+interface ShellCheckComment {
+  file: string;
+  line: number;
+  column: number;
+  level: 'error' | 'warning' | 'info' | 'style';
+  code: number;
+  message: string;
+}
+
+export class ShellCheckAnalyzer extends CommandAnalyzer {
+  readonly name = 'shellcheck';
+  readonly binary = 'shellcheck';
+  readonly languages = ['Bourne Shell', 'Bourne Again Shell', 'Korn Shell'];
+  readonly filePattern = /\.(sh|bash|ksh)$/;
+
+  protected args(files: string[]): string[] {
+    return ['--format=json1', ...files];
+  }
+
+  protected parse(stdout: string, repoPath: string): RawFinding[] {
+    const { comments = [] }: { comments?: ShellCheckComment[] } = stdout.trim() ? JSON.parse(stdout) : {};
+    return comments.map(comment => ({
+      tool: this.name,
+      ruleId: `SC${comment.code}`,
+      severity: lintLevel(comment.level),
+      path: repoRelative(repoPath, comment.file),
+      line: comment.line,
+      column: comment.column,
+      message: comment.message,
+    }));
+  }
+}
+
@@ -0,0 +1,50 @@
+import * as path from 'path';
+import { FindingSeverity } from 'types';
+import { ensureCompleted, ToolContext, ToolRunner } from '../tools/tool-runner.service';
+import { Analyzer, AnalyzerOutput, RawFinding } from './analyzer.interface';
+
+/**
+ * Base for analyzers that run an external command over batches of files and
+ * parse what it prints. Subclasses supply the arguments and the parser;
+ * linters conventionally exit 1 when they report issues, so that is accepted.
+ */
+export abstract class CommandAnalyzer implements Analyzer {
+  abstract readonly name: string;
+  abstract readonly binary: string;
+  abstract readonly languages: string[];
+  abstract readonly filePattern: RegExp;
+  // Keeps each invocation's argv well below the OS limit.
+  protected readonly batchSize: number = 200;
+  protected readonly acceptedExitCodes: number[] = [0, 1];
+
+  constructor(protected readonly tools: ToolRunner) {}
+
+  protected abstract args(files: string[]): string[];
+  protected abstract parse(stdout: string, repoPath: string): RawFinding[];
+
+  async analyze(repoPath: string, files: string[], context?: ToolContext): Promise<AnalyzerOutput> {
+    const findings: RawFinding[] = [];
+    for (let start = 0; start < files.length; start += this.batchSize) {
+      const batch = files.slice(start, start + this.batchSize);
+      const { stdout } = ensureCompleted(
+        await this.tools.run(this.binary, this.args(batch), { cwd: repoPath, context }),
+        this.acceptedExitCodes,
+      );
+      findings.push(...this.parse(stdout, repoPath));
+    }
+    return { findings };
+  }
+}
+
+// Tools report paths relative to their working directory or absolute; findings are relative to the repository.
+export function repoRelative(repoPath: string, file: string): string {
+  return path.relative(repoPath, path.resolve(repoPath, file));
+}
+
+// ShellCheck and hadolint share these levels; info and style are advisory.
+export function lintLevel(level: string): FindingSeverity {
+  if (level === 'error') {
+    return 'error';
+  }
+  return level === 'warning' ? 'warning' : 'note';
+}
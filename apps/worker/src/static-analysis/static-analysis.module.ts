@@ -1,8 +1,11 @@
 import { Module } from '@nestjs/common';
+import { ToolsModule } from '../tools/tools.module';
 import { StaticAnalysisService } from './static-analysis.service';
+import { AnalyzerRegistry } from './analyzer.registry';
 
 @Module({
-  providers: [StaticAnalysisService],
+  imports: [ToolsModule],
+  providers: [AnalyzerRegistry, StaticAnalysisService],
   exports: [StaticAnalysisService],
 })
 export class StaticAnalysisModule {}
@@ -1,57 +1,94 @@
 import { Injectable } from '@nestjs/common';
-import { ESLint } from 'eslint';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as nodePath from 'path';
+import { fingerprintFinding } from 'findings';
+import { AnalyzerRun, FileInventory, Finding } from 'types';
+import { ToolContext, ToolNotFoundError } from '../tools/tool-runner.service';
+import { AnalyzerOptions, RawFinding } from './analyzer.interface';
+import { AnalyzerRegistry } from './analyzer.registry';
 
-const execAsync = promisify(exec);
+export interface StaticAnalysisReport {
+  findings: Finding[];
+  analyzers: AnalyzerRun[];
+}
 
 @Injectable()
 export class StaticAnalysisService {
-  async analyze(path: string, language: string): Promise<number> {
-    console.log(`Running static analysis for ${language} at ${path}`);
-    switch (language.toLowerCase()) {
-      case 'typescript':
-      case 'javascript':
-        return this.runEsLint(path);
-      case 'python':
-        return this.runRuff(path);
-      default:
-        console.log(`No static analysis tool for language: ${language}`);
-        return 0;
+  constructor(private readonly registry: AnalyzerRegistry) {}
+
+  /**
+   * Runs every registered analyzer that handles some of `files` (relative to
+   * `path`), judged by the inventory's language for each file or by file name.
+   * Only included files are linted, so excluded code is never reported. An
+   * analyzer whose binary is missing is recorded as not run rather than clean.
+   */
+  async analyze(
+    path: string,
+    files: string[],
+    inventory: FileInventory[],
+    options: AnalyzerOptions,
+    context?: ToolContext,
+  ): Promise<StaticAnalysisReport> {
+    const assignments = this.registry.assign(files, inventory);
+    if (assignments.length === 0) {
+      console.log('No static analysis tool applies to this repository.');
+      return { findings: [], analyzers: [] };
     }
-  }
 
-  private async runEsLint(path: string): Promise<number> {
-    try {
-      const eslint = new ESLint({ cwd: path, overrideConfigFile: './.eslintrc.js' });
-      const results = await eslint.lintFiles(['**/*.ts', '**/*.js']);
-      const problemCount = results.reduce((acc, result) => acc + result.errorCount + result.warningCount, 0);
-      console.log(`ESLint found ${problemCount} issues.`);
-      return problemCount;
-    } catch (error) {
-      console.error('ESLint analysis failed:', error);
-      return -1; // Indicate error
+    console.log(`Running ${assignments.map(({ analyzer }) => analyzer.name).join(', ')} at ${path}`);
+    const findings: RawFinding[] = [];
+    const analyzers: AnalyzerRun[] = [];
+    for (const { analyzer, files: analyzerFiles } of assignments) {
+      const run: AnalyzerRun = {
+        analyzer: analyzer.name,
+        status: 'ok',
+        config: null,
+        files: analyzerFiles.length,
+        errors: 0,
+        warnings: 0,
+        reason: null,
+      };
+      try {
+        const output = await analyzer.analyze(path, analyzerFiles, context, options);
+        findings.push(...output.findings);
+        run.config = output.config ?? null;
+        run.reason = output.note ?? null;
+        run.errors = output.findings.filter(finding => finding.severity === 'error').length;
+        run.warnings = output.findings.length - run.errors;
+        console.log(`${analyzer.name} found ${run.errors} errors and ${run.warnings} warnings.`);
+      } catch (error) {
+        if (context?.signal?.aborted) {
+          throw error;
+        }
+        if (error instanceof ToolNotFoundError) {
+          console.warn(`${analyzer.binary} is not installed; ${analyzer.name} did not run.`);
+          run.status = 'not-run';
+          run.reason = `${analyzer.binary} is not installed`;
+        } else {
+          console.error(`${analyzer.name} analysis failed:`, error);
+          run.status = 'failed';
+          run.reason = error instanceof Error ? error.message : String(error);
+        }
+      }
+      analyzers.push(run);
     }
+    return { findings: await fingerprint(path, findings), analyzers };
   }
+}
 
-  private async runRuff(path: string): Promise<number> {
-    try {
-      // This assumes 'ruff' is in the system's PATH.
-      const command = `ruff check ${path}`;
-      const { stdout } = await execAsync(command);
-      // Ruff prints one issue per line. Counting lines gives the issue count.
-      const issueCount = stdout.split('\n').filter(line => line.trim() !== '').length;
-      console.log(`Ruff found ${issueCount} issues.`);
-      return issueCount;
-    } catch (error) {
-      // If ruff exits with a non-zero code but still prints to stdout, it means it found issues.
-      if (error.stdout) {
-         const issueCount = error.stdout.split('\n').filter(line => line.trim() !== '').length;
-         console.log(`Ruff found ${issueCount} issues.`);
-         return issueCount;
-      }
-      console.error('Ruff analysis failed:', error);
-      return -1; // Indicate error
+// Reads each file with findings once, to anchor fingerprints to the offending line's text.
+async function fingerprint(repoPath: string, findings: RawFinding[]): Promise<Finding[]> {
+  const contents = new Map<string, string[] | null>();
+  const results: Finding[] = [];
+  for (const finding of findings) {
+    if (!contents.has(finding.path)) {
+      contents.set(finding.path, await fs.readFile(nodePath.join(repoPath, finding.path), 'utf-8')
+        .then(content => content.split(/\r?\n/))
+        .catch(() => null));
     }
+    const lines = contents.get(finding.path);
+    const lineText = lines && finding.line !== null ? lines[finding.line - 1] : undefined;
+    results.push({ ...finding, fingerprint: fingerprintFinding(finding, lineText) });
   }
+  return results;
 }
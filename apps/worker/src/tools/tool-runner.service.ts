@@ -0,0 +1,213 @@
+import { Injectable } from '@nestjs/common';
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import { ToolRunSummary } from 'types';
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+const DEFAULT_MEMORY_LIMIT_MB = 2048;
+const STDERR_TAIL_BYTES = 4 * 1024;
+const MEMORY_POLL_MS = 1000;
+
+// Tools only see these variables from the worker's environment, never its secrets.
+const INHERITED_ENV = ['PATH', 'HOME', 'LANG', 'TMPDIR'];
+
+// Raised when the executable is not installed, so callers can fall back to an in-process implementation.
+export class ToolNotFoundError extends Error {
+  constructor(readonly command: string) {
+    super(`${command} is not installed or not on PATH.`);
+  }
+}
+
+export interface ToolRunResult extends ToolRunSummary {
+  stdout: string;
+}
+
+// Carries cancellation into every tool a phase spawns and collects their results for the phase record.
+export interface ToolContext {
+  signal?: AbortSignal;
+  runs: ToolRunSummary[];
+}
+
+export interface ToolRunOptions {
+  cwd?: string;
+  context?: ToolContext;
+  env?: Record<string, string>;
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+  memoryLimitMb?: number;
+}
+
+@Injectable()
+export class ToolRunner {
+  /**
+   * Spawns `command` with an argv array (no shell) in its own process group.
+   * The whole group is killed on timeout, when its resident memory exceeds
+   * the limit, or when the context's signal aborts. A non-zero exit code is
+   * not an error: callers decide with `ensureCompleted` which codes are fine.
+   */
+  run(command: string, args: string[], options: ToolRunOptions = {}): Promise<ToolRunResult> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+    const memoryLimitMb = options.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB;
+    const signal = options.context?.signal;
+
+    if (signal?.aborted) {
+      return Promise.reject(new Error(`${command} was cancelled before it started.`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const started = Date.now();
+      const child = spawn(command, args, {
+        cwd: options.cwd,
+        env: { ...minimalEnv(), ...options.env },
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: true,
+      });
+
+      const stdout: Buffer[] = [];
+      let stdoutBytes = 0;
+      let stdoutTruncated = false;
+      let stderr = Buffer.alloc(0);
+      let timedOut = false;
+      let memoryExceeded = false;
+      let cancelled = false;
+      let spawnFailed = false;
+
+      const kill = () => {
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          // The group has already exited.
+        }
+      };
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        if (stdoutBytes + chunk.length > maxOutputBytes) {
+          stdoutTruncated = true;
+          chunk = chunk.subarray(0, Math.max(0, maxOutputBytes - stdoutBytes));
+        }
+        stdout.push(chunk);
+        stdoutBytes += chunk.length;
+      });
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr = Buffer.concat([stderr, chunk]).subarray(-STDERR_TAIL_BYTES);
+      });
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        kill();
+      }, timeoutMs);
+      const memoryWatch = setInterval(async () => {
+        if (child.pid && (await processTreeRssMb(child.pid)) > memoryLimitMb) {
+          memoryExceeded = true;
+          kill();
+        }
+      }, MEMORY_POLL_MS);
+      const onAbort = () => {
+        cancelled = true;
+        kill();
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        clearInterval(memoryWatch);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      child.on('error', error => {
+        spawnFailed = true;
+        cleanup();
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          reject(new ToolNotFoundError(command));
+          return;
+        }
+        reject(new Error(`Could not start ${command}: ${error.message}`));
+      });
+
+      child.on('close', (exitCode, exitSignal) => {
+        if (spawnFailed) {
+          return;
+        }
+        cleanup();
+        const summary: ToolRunSummary = {
+          command,
+          args,
+          exitCode,
+          signal: exitSignal,
+          durationMs: Date.now() - started,
+          timedOut,
+          memoryExceeded,
+          cancelled,
+          stdoutTruncated,
+          stderrTail: stderr.toString('utf-8'),
+        };
+        options.context?.runs.push(summary);
+        console.log(`${command} finished in ${summary.durationMs}ms (${describeOutcome(summary)}).`);
+
+        if (cancelled) {
+          reject(new Error(`${command} was cancelled.`));
+          return;
+        }
+        resolve({ ...summary, stdout: Buffer.concat(stdout).toString('utf-8') });
+      });
+    });
+  }
+}
+
+/**
+ * Throws unless the tool ran to completion with one of the accepted exit
+ * codes. Linters and auditors commonly exit 1 to report findings.
+ */
+export function ensureCompleted(result: ToolRunResult, acceptedExitCodes: number[] = [0]): ToolRunResult {
+  if (result.timedOut || result.memoryExceeded || result.exitCode === null || !acceptedExitCodes.includes(result.exitCode)) {
+    const stderr = result.stderrTail.trim().split('\n').pop();
+    throw new Error(`${result.command} failed (${describeOutcome(result)})${stderr ? `: ${stderr}` : ''}`);
+  }
+  if (result.stdoutTruncated) {
+    throw new Error(`${result.command} produced more output than the limit allows.`);
+  }
+  return result;
+}
+
+function describeOutcome(summary: ToolRunSummary): string {
+  if (summary.cancelled) {
+    return 'cancelled';
+  }
+  if (summary.timedOut) {
+    return `timed out after ${summary.durationMs}ms`;
+  }
+  if (summary.memoryExceeded) {
+    return 'exceeded memory limit';
+  }
+  return summary.exitCode === null ? `killed by ${summary.signal}` : `exit code ${summary.exitCode}`;
+}
+
+function minimalEnv(): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of INHERITED_ENV) {
+    if (process.env[name]) {
+      env[name] = process.env[name]!;
+    }
+  }
+  return env;
+}
+
+// Sums VmRSS over a process and its descendants; processes that exit mid-walk count as zero.
+async function processTreeRssMb(pid: number): Promise<number> {
+  let totalKb = 0;
+  const pending = [pid];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    try {
+      const status = await fs.readFile(`/proc/${current}/status`, 'utf-8');
+      totalKb += parseInt(status.match(/^VmRSS:\s+(\d+)/m)?.[1] || '0', 10);
+      const children = await fs.readFile(`/proc/${current}/task/${current}/children`, 'utf-8');
+      pending.push(...children.split(' ').filter(child => child.trim()).map(child => parseInt(child, 10)));
+    } catch {
+      continue;
+    }
+  }
+  return totalKb / 1024;
+}
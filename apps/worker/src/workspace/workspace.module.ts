@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { GitModule } from '../git/git.module';
+import { WorkspaceService } from './workspace.service';
+
+@Module({
+  imports: [GitModule],
+  providers: [WorkspaceService],
+  exports: [WorkspaceService],
+})
+export class WorkspaceModule {}
@@ -0,0 +1,165 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CloneAuth, GitService, HistoryWindow } from '../git/git.service';
+
+const OWNER_FILE = '.devatlas-owner.json';
+const DEFAULT_ROOT = '/tmp/devatlas';
+const DEFAULT_MIN_FREE_MB = 2048;
+const DEFAULT_CLONE_TIMEOUT_MS = 10 * 60 * 1000;
+// Workspaces owned by other hosts are only swept once they are clearly abandoned.
+const ORPHAN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// A checkout plus its .git directory takes roughly this multiple of the size the provider reports.
+const CLONE_SIZE_FACTOR = 3;
+
+interface WorkspaceOwner {
+  hostname: string;
+  pid: number;
+  createdAt: string;
+}
+
+/**
+ * Gives every analysis its own directory under WORKSPACE_ROOT, guards clones
+ * with disk-space, size and time limits, and removes workspaces when the
+ * analysis ends or, for ones left behind by a crashed worker, at startup.
+ */
+@Injectable()
+export class WorkspaceService implements OnModuleInit {
+  private readonly root = process.env.WORKSPACE_ROOT || DEFAULT_ROOT;
+  private readonly minFreeMb = Number(process.env.WORKSPACE_MIN_FREE_MB) || DEFAULT_MIN_FREE_MB;
+  private readonly cloneTimeoutMs = Number(process.env.CLONE_TIMEOUT_MS) || DEFAULT_CLONE_TIMEOUT_MS;
+
+  constructor(private readonly git: GitService) {}
+
+  async onModuleInit() {
+    await this.sweepOrphans();
+  }
+
+  async create(analysisId: string): Promise<string> {
+    const workspace = path.join(this.root, analysisId);
+    await fs.mkdir(workspace, { recursive: true });
+    const owner: WorkspaceOwner = { hostname: os.hostname(), pid: process.pid, createdAt: new Date().toISOString() };
+    await fs.writeFile(path.join(workspace, OWNER_FILE), JSON.stringify(owner));
+    return workspace;
+  }
+
+  async release(workspace: string): Promise<void> {
+    console.log(`Removing workspace ${workspace}`);
+    await fs.rm(workspace, { recursive: true, force: true });
+  }
+
+  /**
+   * Clones into `localPath` after checking the reported size against
+   * `maxRepoSizeKb` and the free disk space, and re-checks the size on disk
+   * afterwards since providers do not always report it.
+   */
+  async clone(
+    repoUrl: string,
+    localPath: string,
+    sizeKb: number,
+    maxRepoSizeKb: number,
+    history: HistoryWindow,
+    auth?: CloneAuth,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (sizeKb > maxRepoSizeKb) {
+      throw new Error(`${repoUrl} is ${sizeKb} KB, above the ${maxRepoSizeKb} KB limit.`);
+    }
+    await this.ensureFreeSpace(sizeKb * CLONE_SIZE_FACTOR);
+
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(), this.cloneTimeoutMs);
+    const onAbort = () => timeout.abort();
+    signal?.addEventListener('abort', onAbort);
+    try {
+      await this.git.clone(repoUrl, localPath, history, auth, timeout.signal);
+    } catch (error) {
+      await fs.rm(localPath, { recursive: true, force: true });
+      if (timeout.signal.aborted && !signal?.aborted) {
+        throw new Error(`Cloning ${repoUrl} took longer than ${this.cloneTimeoutMs}ms.`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    const clonedKb = await directorySizeKb(localPath);
+    if (clonedKb > maxRepoSizeKb * CLONE_SIZE_FACTOR) {
+      await fs.rm(localPath, { recursive: true, force: true });
+      throw new Error(`${repoUrl} takes ${clonedKb} KB on disk, more than a ${maxRepoSizeKb} KB repository should.`);
+    }
+  }
+
+  private async ensureFreeSpace(requiredKb: number): Promise<void> {
+    await fs.mkdir(this.root, { recursive: true });
+    const stats = await fs.statfs(this.root);
+    const freeMb = (stats.bavail * stats.bsize) / (1024 * 1024);
+    const requiredMb = requiredKb / 1024 + this.minFreeMb;
+    if (freeMb < requiredMb) {
+      throw new Error(`Not enough disk space in ${this.root}: ${Math.round(freeMb)} MB free, ${Math.round(requiredMb)} MB needed.`);
+    }
+  }
+
+  /**
+   * Removes workspaces whose owning process is gone. At startup this process
+   * owns nothing yet, so a workspace recorded under its own pid on this host
+   * belongs to a previous container run and is stale too.
+   */
+  private async sweepOrphans(): Promise<void> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.root);
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const workspace = path.join(this.root, entry);
+      const owner = await readOwner(workspace);
+      const orphaned = !owner
+        || (owner.hostname === os.hostname() && (owner.pid === process.pid || !isAlive(owner.pid)))
+        || Date.now() - new Date(owner.createdAt).getTime() > ORPHAN_MAX_AGE_MS;
+      if (orphaned) {
+        console.log(`Sweeping orphaned workspace ${workspace}`);
+        await fs.rm(workspace, { recursive: true, force: true });
+      }
+    }
+  }
+}
+
+async function readOwner(workspace: string): Promise<WorkspaceOwner | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(workspace, OWNER_FILE), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user.
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function directorySizeKb(directory: string): Promise<number> {
+  let bytes = 0;
+  const pending = [directory];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    for (const entry of await fs.readdir(current, { withFileTypes: true })) {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        pending.push(entryPath);
+      } else if (entry.isFile()) {
+        bytes += (await fs.stat(entryPath)).size;
+      }
+    }
+  }
+  return Math.round(bytes / 1024);
+}
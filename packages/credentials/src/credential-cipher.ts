@@ -0,0 +1,50 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const VERSION = 'v1';
+
+/**
+ * Encrypts org credentials at rest with AES-256-GCM. The key is a base64
+ * encoded 32-byte value from CREDENTIALS_ENCRYPTION_KEY; ciphertexts are
+ * stored as `v1:<iv>:<authTag>:<data>` so the format can evolve.
+ */
+export class CredentialCipher {
+  private key: Buffer;
+
+  constructor(encodedKey = process.env.CREDENTIALS_ENCRYPTION_KEY) {
+    if (!encodedKey) {
+      throw new Error('CREDENTIALS_ENCRYPTION_KEY is not set.');
+    }
+    this.key = Buffer.from(encodedKey, 'base64');
+    if (this.key.length !== 32) {
+      throw new Error('CREDENTIALS_ENCRYPTION_KEY must decode to 32 bytes.');
+    }
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+    return [VERSION, iv.toString('base64'), authTag.toString('base64'), data.toString('base64')].join(':');
+  }
+
+  decrypt(payload: string): string {
+    const [version, iv, authTag, data] = payload.split(':');
+    if (version !== VERSION || !iv || !authTag || !data) {
+      throw new Error('Unrecognized credential ciphertext format.');
+    }
+    const decipher = createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  }
+}
+
+// Replaces every occurrence of the given secrets, e.g. before an error message is logged.
+export function redactSecrets(text: string, secrets: Array<string | null | undefined>): string {
+  return secrets.reduce<string>(
+    (result, secret) => (secret ? result.split(secret).join('[REDACTED]') : result),
+    text,
+  );
+}
@@ -0,0 +1,15 @@
+import { createHash } from 'crypto';
+import { Finding } from 'types';
+
+/**
+ * Identifies a finding across runs. The text of the offending line stands in
+ * for its number when known, so edits elsewhere in the file keep the same
+ * fingerprint; without it the line number is used.
+ */
+export function fingerprintFinding(finding: Omit<Finding, 'fingerprint'>, lineText?: string): string {
+  const anchor = lineText !== undefined ? lineText.trim().replace(/\s+/g, ' ') : String(finding.line ?? '');
+  return createHash('sha256')
+    .update([finding.tool, finding.ruleId, finding.path, anchor, finding.message].join('\0'))
+    .digest('hex')
+    .slice(0, 32);
+}
@@ -0,0 +1,2 @@
+export * from './fingerprint';
+export * from './sarif';
@@ -0,0 +1,130 @@
+import { Finding } from 'types';
+import { fingerprintFinding } from './fingerprint';
+import { findingsFromSarif, findingsToSarif, SARIF_VERSION, SarifLog } from './sarif';
+
+function finding(overrides: Partial<Finding> = {}): Finding {
+  const base = { tool: 'eslint', ruleId: 'no-unused-vars', severity: 'warning' as const, path: 'src/app.ts', line: 3, column: 7, message: "'x' is unused." };
+  const merged = { ...base, ...overrides };
+  return { ...merged, fingerprint: overrides.fingerprint || fingerprintFinding(merged) };
+}
+
+describe('findingsFromSarif', () => {
+  it('reads rule, level, location and message from each result', () => {
+    const log: SarifLog = {
+      version: SARIF_VERSION,
+      runs: [{
+        tool: { driver: { name: 'semgrep' } },
+        results: [{
+          ruleId: 'python.lang.security.eval',
+          level: 'error',
+          message: { text: 'Avoid eval.' },
+          locations: [{ physicalLocation: { artifactLocation: { uri: 'app/main.py' }, region: { startLine: 12, startColumn: 5 } } }],
+        }],
+      }],
+    };
+
+    const [result] = findingsFromSarif(log);
+    expect(result).toEqual({
+      tool: 'semgrep',
+      ruleId: 'python.lang.security.eval',
+      severity: 'error',
+      path: 'app/main.py',
+      line: 12,
+      column: 5,
+      message: 'Avoid eval.',
+      fingerprint: expect.stringMatching(/^[0-9a-f]{32}$/),
+    });
+  });
+
+  it('resolves the rule from ruleIndex and its default level', () => {
+    const log: SarifLog = {
+      version: SARIF_VERSION,
+      runs: [{
+        tool: { driver: { name: 'codeql', rules: [{ id: 'js/xss', defaultConfiguration: { level: 'error' } }, { id: 'js/unused' }] } },
+        results: [
+          { ruleIndex: 0, message: { markdown: 'Cross-site scripting' } },
+          { rule: { index: 1 }, level: 'none', message: { text: 'Unused variable' } },
+          { ruleId: 'js/other', message: { text: 'No level' } },
+        ],
+      }],
+    };
+
+    expect(findingsFromSarif(log).map(({ ruleId, severity, message }) => ({ ruleId, severity, message }))).toEqual([
+      { ruleId: 'js/xss', severity: 'error', message: 'Cross-site scripting' },
+      { ruleId: 'js/unused', severity: 'note', message: 'Unused variable' },
+      { ruleId: 'js/other', severity: 'warning', message: 'No level' },
+    ]);
+  });
+
+  it('makes file URIs inside the checkout relative and decodes them', () => {
+    const log: SarifLog = {
+      version: SARIF_VERSION,
+      runs: [{
+        tool: { driver: { name: 'ruff' } },
+        results: [
+          { message: { text: 'a' }, locations: [{ physicalLocation: { artifactLocation: { uri: 'file:///tmp/checkout/src/my%20file.py' } } }] },
+          { message: { text: 'b' }, locations: [{ physicalLocation: { artifactLocation: { uri: './lib/util.py' } } }] },
+          { message: { text: 'c' }, locations: [{ physicalLocation: { artifactLocation: { uri: 'file:///etc/other.py' } } }] },
+          { message: { text: 'd' } },
+        ],
+      }],
+    };
+
+    expect(findingsFromSarif(log, '/tmp/checkout').map(result => [result.path, result.line])).toEqual([
+      ['src/my file.py', null],
+      ['lib/util.py', null],
+      ['/etc/other.py', null],
+      ['', null],
+    ]);
+  });
+
+  it('fingerprints with the producer fingerprints in place of the line when the log has them', () => {
+    const read = (line: number, extra: object = {}) => findingsFromSarif({
+      version: SARIF_VERSION,
+      runs: [{
+        tool: { driver: { name: 't' } },
+        results: [{ ruleId: 'r', message: { text: 'm' }, locations: [{ physicalLocation: { artifactLocation: { uri: 'a.ts' }, region: { startLine: line } } }], ...extra }],
+      }],
+    })[0].fingerprint;
+    const lineHash = { primaryLocationLineHash: 'abc:1' };
+
+    expect(read(1, { partialFingerprints: lineHash })).toBe(read(40, { partialFingerprints: lineHash }));
+    expect(read(1, { partialFingerprints: lineHash })).toBe(read(1, { fingerprints: lineHash }));
+    expect(read(1)).not.toBe(read(40));
+    expect(read(1, { partialFingerprints: { 'devatlas/v1': 'ours' } })).toBe('ours');
+  });
+
+  it('tolerates logs without runs or results', () => {
+    expect(findingsFromSarif({ version: SARIF_VERSION } as SarifLog)).toEqual([]);
+    expect(findingsFromSarif({ version: SARIF_VERSION, runs: [{ tool: { driver: { name: 't' } } }] })).toEqual([]);
+  });
+});
+
+describe('findingsToSarif', () => {
+  it('writes one run per repository and tool with indexed rules', () => {
+    const log = findingsToSarif([{
+      repository: { uri: 'https://github.com/acme/app', revision: 'abc123' },
+      findings: [
+        finding(),
+        finding({ ruleId: 'eqeqeq', line: 9, column: null }),
+        finding({ tool: 'ruff', ruleId: 'F401', severity: 'error', path: 'tool.py', line: null, column: null }),
+      ],
+    }]);
+
+    expect(log.version).toBe(SARIF_VERSION);
+    expect(log.runs.map(run => run.tool.driver.name)).toEqual(['eslint', 'ruff']);
+    const [eslint, ruff] = log.runs;
+    expect(eslint.versionControlProvenance).toEqual([{ repositoryUri: 'https://github.com/acme/app', revisionId: 'abc123' }]);
+    expect(eslint.tool.driver.rules).toEqual([{ id: 'eqeqeq' }, { id: 'no-unused-vars' }]);
+    expect(eslint.results!.map(result => [result.ruleId, result.ruleIndex])).toEqual([['no-unused-vars', 1], ['eqeqeq', 0]]);
+    expect(eslint.results![1].locations![0].physicalLocation!.region).toEqual({ startLine: 9 });
+    expect(ruff.results![0].level).toBe('error');
+    expect(ruff.results![0].locations![0].physicalLocation).toEqual({ artifactLocation: { uri: 'tool.py', uriBaseId: '%SRCROOT%' } });
+  });
+
+  it('round-trips findings, keeping their fingerprints', () => {
+    const findings = [finding(), finding({ ruleId: 'no-console', severity: 'note', fingerprint: 'custom-fingerprint' })];
+
+    expect(findingsFromSarif(findingsToSarif([{ findings }]))).toEqual(findings);
+  });
+});
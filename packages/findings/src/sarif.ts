@@ -0,0 +1,153 @@
+import { Finding, FindingSeverity } from 'types';
+import { fingerprintFinding } from './fingerprint';
+
+export const SARIF_VERSION = '2.1.0';
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+// The subset of SARIF 2.1.0 that findings are read from and written to.
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifLog {
+  $schema?: string;
+  version: string;
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: { driver: { name: string; version?: string; informationUri?: string; rules?: SarifRule[] } };
+  versionControlProvenance?: { repositoryUri: string; revisionId?: string }[];
+  originalUriBaseIds?: Record<string, { uri: string }>;
+  results?: SarifResult[];
+}
+
+export interface SarifRule {
+  id: string;
+  defaultConfiguration?: { level?: SarifLevel };
+}
+
+export interface SarifResult {
+  ruleId?: string;
+  ruleIndex?: number;
+  rule?: { id?: string; index?: number };
+  level?: SarifLevel;
+  message: { text?: string; markdown?: string };
+  locations?: {
+    physicalLocation?: {
+      artifactLocation?: { uri?: string; uriBaseId?: string };
+      region?: { startLine?: number; startColumn?: number };
+    };
+  }[];
+  fingerprints?: Record<string, string>;
+  partialFingerprints?: Record<string, string>;
+}
+
+// Key under which our own fingerprint is written, and recognized when a log is read back.
+const FINGERPRINT_KEY = 'devatlas/v1';
+
+/**
+ * Normalizes every result of a SARIF log. Artifact URIs are made relative to
+ * `rootPath` (the checkout the tool ran in) when they point inside it.
+ * Results without a location are kept with an empty path.
+ */
+export function findingsFromSarif(log: SarifLog, rootPath?: string): Finding[] {
+  const findings: Finding[] = [];
+  for (const run of log.runs || []) {
+    const tool = run.tool?.driver?.name || 'unknown';
+    const rules = run.tool?.driver?.rules || [];
+    for (const result of run.results || []) {
+      const ruleIndex = result.ruleIndex ?? result.rule?.index;
+      const rule = ruleIndex !== undefined ? rules[ruleIndex] : undefined;
+      const ruleId = result.ruleId || result.rule?.id || rule?.id || 'unknown';
+      const location = result.locations?.[0]?.physicalLocation;
+      const finding = {
+        tool,
+        ruleId,
+        severity: severityOf(result.level || rules.find(entry => entry.id === ruleId)?.defaultConfiguration?.level),
+        path: relativePath(location?.artifactLocation?.uri || '', rootPath),
+        line: location?.region?.startLine ?? null,
+        column: location?.region?.startColumn ?? null,
+        message: result.message?.text || result.message?.markdown || '',
+      };
+      findings.push({ ...finding, fingerprint: resultFingerprint(result, finding) });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Writes findings as a SARIF 2.1.0 log with one run per repository and tool.
+ * Paths stay relative to the repository root under the %SRCROOT% base.
+ */
+export function findingsToSarif(groups: { repository?: { uri: string; revision?: string | null }; findings: Finding[] }[]): SarifLog {
+  const runs: SarifRun[] = [];
+  for (const { repository, findings } of groups) {
+    const byTool = new Map<string, Finding[]>();
+    for (const finding of findings) {
+      byTool.set(finding.tool, [...(byTool.get(finding.tool) || []), finding]);
+    }
+
+    for (const [tool, toolFindings] of byTool) {
+      const ruleIds = Array.from(new Set(toolFindings.map(finding => finding.ruleId))).sort();
+      runs.push({
+        tool: { driver: { name: tool, rules: ruleIds.map(id => ({ id })) } },
+        ...(repository && {
+          versionControlProvenance: [{ repositoryUri: repository.uri, ...(repository.revision && { revisionId: repository.revision }) }],
+        }),
+        results: toolFindings.map(finding => ({
+          ruleId: finding.ruleId,
+          ruleIndex: ruleIds.indexOf(finding.ruleId),
+          level: finding.severity,
+          message: { text: finding.message },
+          locations: [{
+            physicalLocation: {
+              artifactLocation: { uri: finding.path, uriBaseId: '%SRCROOT%' },
+              ...(finding.line !== null && {
+                region: { startLine: finding.line, ...(finding.column !== null && { startColumn: finding.column }) },
+              }),
+            },
+          }],
+          partialFingerprints: { [FINGERPRINT_KEY]: finding.fingerprint },
+        })),
+      });
+    }
+  }
+  return { $schema: SARIF_SCHEMA, version: SARIF_VERSION, runs };
+}
+
+function severityOf(level: SarifLevel | undefined): FindingSeverity {
+  // SARIF's default level is "warning"; "none" results are informational.
+  if (level === 'error' || level === 'note') {
+    return level;
+  }
+  return level === 'none' ? 'note' : 'warning';
+}
+
+function relativePath(uri: string, rootPath?: string): string {
+  let filePath = uri.replace(/^file:\/\//, '');
+  try {
+    filePath = decodeURIComponent(filePath);
+  } catch {
+    // Not percent-encoded after all; use it as written.
+  }
+  if (rootPath) {
+    const root = rootPath.endsWith('/') ? rootPath : `${rootPath}/`;
+    if (filePath.startsWith(root)) {
+      filePath = filePath.slice(root.length);
+    }
+  }
+  return filePath.replace(/^\.\//, '');
+}
+
+// Reuses a fingerprint the producer supplied (ours or its own), so re-uploads of the same log match.
+function resultFingerprint(result: SarifResult, finding: Omit<Finding, 'fingerprint'>): string {
+  const supplied = result.partialFingerprints?.[FINGERPRINT_KEY];
+  if (supplied) {
+    return supplied;
+  }
+  const producer = { ...result.fingerprints, ...result.partialFingerprints };
+  const keys = Object.keys(producer).sort();
+  if (keys.length > 0) {
+    return fingerprintFinding(finding, keys.map(key => `${key}=${producer[key]}`).join(';'));
+  }
+  return fingerprintFinding(finding);
+}
@@ -2,9 +2,26 @@ export interface AnalysisMetrics {
     handle: string;
     dominantLanguage: string;
     totalLoc: number;
-    lintIssues: number;
-    vulnCount: number;
+    lintIssues: number;        // -1 when no applicable analyzer completed
+    lintErrors: number;
+    lintWarnings: number;      // warnings and notes
+    vulnCount: number;         // -1 when no locked ecosystem could be audited
+    vulnSeverities: Record<VulnerabilitySeverity, number>;
+    secretsFound: number;      // after the org allowlist
     readmeScore: number;
+    busFactor: number | null; // repo root; null when there was no blame to compute it from
+    stars: number;
+    forks: number;
+    commitQuality: CommitQuality | null;       // null when the history window holds no commits
+    pullRequests: PullRequestActivity | null;  // null when the provider cannot report pull requests
+    hasTests: boolean;
+    hasCI: boolean;
+    testRatio: number;
+    ciSteps: CiStep[];
+    coverage: CoverageStatus;
+    lineCoverage: number | null;   // percent; null when coverage is unknown
+    branchCoverage: number | null; // percent; null when no report carries branch data
+    avgComplexity: number | null;  // mean cyclomatic complexity per function; null when no function was analyzed
 }
 
 export interface ScoreData {
@@ -17,3 +34,420 @@ export interface ScoreData {
     collaboration: number;
     details: any; // For storing raw inputs
 }
+
+export interface ProjectSettings {
+    includeForks: boolean;
+    includeArchived: boolean;
+    maxRepoSizeKb: number;
+    maxRepos: number;
+    ownershipDepth: number;
+    historyMode: HistoryMode;
+    historyDepth: number;
+    historySince: string;
+    fullHistoryMaxSizeKb: number;
+    includeBots: boolean;
+    scanSecretHistory: boolean;
+    runRepoEslintConfig: boolean;
+}
+
+// How much history to clone for blame: `auto` takes full history for repos up
+// to fullHistoryMaxSizeKb and falls back to the `since` window for bigger ones.
+export type HistoryMode = 'auto' | 'full' | 'depth' | 'since';
+
+export const HISTORY_MODES: HistoryMode[] = ['auto', 'full', 'depth', 'since'];
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+    includeForks: false,
+    includeArchived: false,
+    maxRepoSizeKb: 500_000,
+    maxRepos: 10,
+    ownershipDepth: 2,
+    historyMode: 'auto',
+    historyDepth: 1000,
+    historySince: '12 months ago',
+    fullHistoryMaxSizeKb: 100_000,
+    includeBots: false,
+    scanSecretHistory: false,
+    runRepoEslintConfig: false,
+};
+
+// Project.settings is free-form JSON; missing keys fall back to the defaults.
+export function resolveProjectSettings(settings: unknown): ProjectSettings {
+    if (!settings || typeof settings !== 'object') {
+        return DEFAULT_PROJECT_SETTINGS;
+    }
+    return { ...DEFAULT_PROJECT_SETTINGS, ...(settings as Partial<ProjectSettings>) };
+}
+
+export const GIT_PROVIDER_KINDS = ['github', 'gitlab', 'bitbucket', 'git', 'local'] as const;
+
+export type GitProviderKind = typeof GIT_PROVIDER_KINDS[number];
+
+// `user` and `org` projects list every repository the handle owns; `repo` names a single `owner/repo`.
+export const PROJECT_TYPES = ['user', 'org', 'repo'] as const;
+
+export type ProjectType = typeof PROJECT_TYPES[number];
+
+export const CREDENTIAL_KINDS = ['github_app_installation', 'personal_access_token'] as const;
+
+export type CredentialKind = typeof CREDENTIAL_KINDS[number];
+
+export type PhaseStatus = 'running' | 'complete' | 'failed';
+
+export interface AnalysisPhaseState {
+    name: string;
+    repo: string | null; // null for project-level phases
+    status: PhaseStatus;
+    startedAt: string;
+    finishedAt: string | null;
+    durationMs: number | null;
+    error: string | null;
+    artifact: unknown;       // null when the output is in the analysis cache under cacheKey
+    cacheKey: PhaseCacheKey | null;
+    tools: ToolRunSummary[]; // external tools the phase spawned, in order
+}
+
+// Identifies an AnalysisCache row.
+export interface PhaseCacheKey {
+    repoUrl: string;
+    commitSha: string;
+    phase: string;
+    variant: string;
+}
+
+// Outcome of one external tool invocation, stored with the phase that ran it.
+export interface ToolRunSummary {
+    command: string;
+    args: string[];
+    exitCode: number | null;   // null when the process was killed
+    signal: string | null;
+    durationMs: number;
+    timedOut: boolean;
+    memoryExceeded: boolean;
+    cancelled: boolean;
+    stdoutTruncated: boolean;
+    stderrTail: string;
+}
+
+// Org-defined identity rules, applied after the repository's .mailmap.
+export interface IdentityAliasRule {
+    canonical: string;       // display name every matching identity is reported under
+    email?: string;
+    match: string[];         // names or emails, compared case-insensitively
+}
+
+export interface IdentityRules {
+    aliases: IdentityAliasRule[];
+    botPatterns: string[];   // extra case-insensitive substrings that mark a name or email as a bot
+}
+
+export interface LineCounts {
+    code: number;
+    comment: number;
+    blank: number;
+}
+
+export interface FileInventory extends LineCounts {
+    path: string;
+    language: string;
+}
+
+// Rollup of every file below a directory; '.' is the repository root.
+export interface DirectoryInventory extends LineCounts {
+    path: string;
+    files: number;
+    languages: Record<string, number>; // language -> lines of code
+}
+
+export interface LanguageBreakdown extends LineCounts {
+    language: string;
+    files: number;
+    share: number; // 0..1 of the repository's lines of code
+}
+
+export interface InventoryReport {
+    counter: 'cloc' | 'builtin';
+    totals: LineCounts & { files: number };
+    languages: LanguageBreakdown[]; // most code first
+    directories: DirectoryInventory[];
+    files: FileInventory[];
+}
+
+export type Ecosystem = 'npm' | 'pypi' | 'go' | 'cargo' | 'maven' | 'rubygems';
+
+export interface StackManifest {
+    path: string;
+    ecosystem: Ecosystem;
+    packageManager: string; // npm, pnpm, yarn, pip, poetry, pipenv, go, cargo, maven, bundler
+}
+
+export interface StackFramework {
+    name: string;
+    kind: 'application' | 'test';
+    version: string | null; // as declared, e.g. "^10.3.3"
+    manifest: string;
+}
+
+export interface StackRuntime {
+    name: string;    // node, python, go, rust, java, ruby
+    version: string; // as declared, e.g. ">=18" or "1.21"
+    source: string;  // file the version came from
+}
+
+export interface StackProfile {
+    ecosystems: Ecosystem[];
+    packageManagers: string[];
+    manifests: StackManifest[];
+    frameworks: StackFramework[];
+    runtimes: StackRuntime[];
+}
+
+export interface TestProfile {
+    hasTests: boolean;
+    testFiles: number;
+    sourceFiles: number;
+    testRatio: number;          // test files per source file
+    testDirectories: string[];
+    frameworks: string[];
+}
+
+export type CiProvider = 'github-actions' | 'gitlab-ci' | 'circleci' | 'jenkins' | 'azure-pipelines';
+
+export type CiStep = 'lint' | 'test' | 'build';
+
+export interface CiConfig {
+    provider: CiProvider;
+    path: string;
+    steps: CiStep[];
+}
+
+export interface CiProfile {
+    hasCI: boolean;
+    configs: CiConfig[];
+    steps: CiStep[]; // union over all configs
+}
+
+export type CoverageFormat = 'lcov' | 'cobertura' | 'istanbul' | 'coverage.py';
+
+// measured: parsed from a committed report; badge: read off a README badge; unknown: neither was found.
+export type CoverageStatus = 'measured' | 'badge' | 'unknown';
+
+export interface CoverageCounts {
+    linesCovered: number;
+    linesTotal: number;
+    branchesCovered: number;
+    branchesTotal: number;
+}
+
+export interface DirectoryCoverage extends CoverageCounts {
+    path: string;
+    lineCoverage: number | null;   // percent
+    branchCoverage: number | null; // percent
+}
+
+export interface CoverageReport {
+    status: CoverageStatus;
+    reports: { path: string; format: CoverageFormat }[];
+    badge: string | null;          // badge URL the percentage was read from
+    lineCoverage: number | null;   // percent
+    branchCoverage: number | null; // percent
+    directories: DirectoryCoverage[];
+}
+
+export interface ReliabilityProfile {
+    tests: TestProfile;
+    ci: CiProfile;
+    coverage: CoverageReport;
+}
+
+export type FindingSeverity = 'error' | 'warning' | 'note';
+
+// One issue reported by a static analysis tool, normalized across ESLint, Ruff and SARIF producers.
+export interface Finding {
+    tool: string;
+    ruleId: string;
+    severity: FindingSeverity;
+    path: string;           // relative to the repository root
+    line: number | null;
+    column: number | null;
+    message: string;
+    fingerprint: string;    // stable across runs while the rule, file and offending line stay the same
+}
+
+// not-run: the analyzer applied to the repository but its binary is not installed on the worker.
+export type AnalyzerStatus = 'ok' | 'failed' | 'not-run';
+
+export interface AnalyzerRun {
+    analyzer: string;
+    status: AnalyzerStatus;
+    config: string | null;  // e.g. the repository's ESLint config file, or 'baseline'
+    files: number;
+    errors: number;
+    warnings: number;       // warnings and notes
+    reason: string | null;  // why it failed, did not run, or fell back from the repository's config
+}
+
+export interface FunctionComplexity {
+    path: string;
+    name: string;           // Class.method for methods, <anonymous> when nothing names the function
+    line: number;
+    endLine: number;
+    cyclomatic: number;
+    cognitive: number;
+}
+
+export interface FileComplexity {
+    path: string;
+    functions: number;
+    avgCyclomatic: number;
+    maxCyclomatic: number;
+    avgCognitive: number;
+    maxCognitive: number;
+}
+
+export interface ComplexityReport {
+    functions: number;
+    avgCyclomatic: number | null;
+    avgCognitive: number | null;
+    files: FileComplexity[];
+    topFunctions: FunctionComplexity[]; // most complex first, by cognitive then cyclomatic
+}
+
+// Ecosystem names as OSV advisories spell them.
+export type OsvEcosystem = 'npm' | 'PyPI' | 'Go' | 'crates.io';
+
+export type HashAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+export interface PackageHash {
+    algorithm: HashAlgorithm;
+    value: string;              // hex digest
+}
+
+// One resolved package version read from a lockfile.
+export interface LockedPackage {
+    ecosystem: OsvEcosystem;
+    name: string;
+    version: string;
+    lockfile: string;
+    direct: boolean | null;
+    license: string | null;     // as the lockfile records it; only npm's lockfiles do
+    hashes: PackageHash[];      // digests of the published artifacts the lockfile pins
+}
+
+export interface SbomComponent extends LockedPackage {
+    purl: string;               // package URL, e.g. pkg:npm/%40scope/name@1.0.0
+}
+
+// A repository's bill of materials as its lockfiles resolve it; the API renders it as CycloneDX or SPDX.
+export interface Sbom {
+    lockfiles: string[];
+    components: SbomComponent[];
+}
+
+// unknown: the advisory carries neither a CVSS v3 vector nor a rating of its own.
+export type VulnerabilitySeverity = 'critical' | 'high' | 'medium' | 'low' | 'unknown';
+
+export const VULNERABILITY_SEVERITIES: VulnerabilitySeverity[] = ['critical', 'high', 'medium', 'low', 'unknown'];
+
+export interface DependencyVulnerability {
+    advisoryId: string;         // OSV id, e.g. GHSA-xxxx-xxxx-xxxx or PYSEC-2023-1
+    aliases: string[];          // CVE and other ids for the same issue
+    summary: string;
+    ecosystem: OsvEcosystem;
+    package: string;
+    version: string;
+    lockfile: string;           // first lockfile the vulnerable version was read from
+    direct: boolean | null;     // declared by the project itself; null when the lockfile cannot tell
+    severity: VulnerabilitySeverity;
+    cvssScore: number | null;   // CVSS v3 base score, 0..10
+    cvssVector: string | null;
+    fixedVersion: string | null;
+}
+
+export interface DependencyAudit {
+    lockfiles: string[];
+    ecosystems: OsvEcosystem[];
+    packages: number;           // distinct package versions checked
+    vulnerabilities: DependencyVulnerability[];
+    unaudited: OsvEcosystem[];  // locked ecosystems the local advisory database has no data for
+    databaseRevision: string | null;
+}
+
+export type SecretType =
+    | 'aws-access-key'
+    | 'aws-secret-key'
+    | 'gcp-api-key'
+    | 'gcp-service-account'
+    | 'github-token'
+    | 'slack-webhook'
+    | 'slack-token'
+    | 'private-key'
+    | 'high-entropy-base64'
+    | 'high-entropy-hex';
+
+// A leaked credential; the secret itself is never stored, only a masked preview.
+export interface SecretFinding {
+    type: SecretType;
+    path: string;               // relative to the repository root
+    line: number;
+    commitSha: string | null;   // the commit that added it, when it was only found in history
+    redacted: string;           // e.g. "AKIA… (20 chars)"
+    fingerprint: string;        // stable for the same secret in the same file; used for allowlisting
+}
+
+export interface SecretScan {
+    findings: SecretFinding[];
+    filesScanned: number;
+    commitsScanned: number | null; // null when history was not scanned
+}
+
+export type ExclusionReason = 'devatlasignore' | 'org-pattern' | 'vendored' | 'generated' | 'minified' | 'lockfile';
+
+// A file or, when a whole directory is excluded for the same reason, the directory (with a trailing slash).
+export interface ExcludedPath {
+    path: string;
+    reason: ExclusionReason;
+    files: number;
+}
+
+export interface FileChurn {
+    path: string;
+    commits: number;
+    added: number;
+    deleted: number;
+}
+
+export interface Hotspot {
+    path: string;
+    commits: number;
+    lines: number;
+    score: number; // 0..1, churn rank weighted by size
+}
+
+export interface HistoryAnalytics {
+    commitCount: number;
+    commitsPerWeek: { week: string; commits: number }[];
+    activeContributors: { month: string; contributors: number }[];
+    churn: FileChurn[];
+    hotspots: Hotspot[];
+    busFactor: { path: string; busFactor: number }[];
+    commitQuality: CommitQuality | null;
+}
+
+export interface CommitQuality {
+    commits: number;
+    conventionalRate: number;   // 0..1, share of subjects following Conventional Commits
+    avgMessageLength: number;   // characters, subject and body
+    fixupRatio: number;         // 0..1, fixup!/squash!/amend! commits left in history
+    wipRatio: number;           // 0..1, "WIP" commits
+}
+
+// Review activity over the most recent pull (or merge) requests, plus the all-time merged count.
+export interface PullRequestActivity {
+    merged: number;
+    sampled: number;
+    reviews: number;
+    reviewComments: number;
+    comments: number;
+    avgDescriptionLength: number;
+}